@@ -0,0 +1,236 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import * as tar from 'tar-stream';
+
+// Name used inside the tar when the Dockerfile lives outside the context directory
+const EXTERNAL_DOCKERFILE_NAME = '.jupyter-docker.Dockerfile';
+
+// Content hashes of context files by path, reused while size and mtime are unchanged,
+// so the check on every kernel start only reads files that were modified
+const fileHashes = new Map<string, { size: number; mtimeMs: number; hash: string }>();
+
+interface IgnoreRule {
+    regex: RegExp;
+    exclude: boolean;
+}
+
+export interface BuildContext {
+    contextDir: string;
+    dockerfilePath: string;
+    // Path of the Dockerfile inside the tar, as passed to the build API
+    dockerfileEntry: string;
+    // Context-relative POSIX paths of every file sent to the engine
+    files: string[];
+}
+
+// Matcher for .dockerignore files: Go filepath.Match globs plus "**", with "!"
+// exceptions and the last matching rule winning, as the Docker CLI does
+export class DockerIgnore {
+    private rules: IgnoreRule[] = [];
+
+    constructor(content: string) {
+        for (const rawLine of content.split(/\r?\n/)) {
+            let line = rawLine.trim();
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            const exclude = !line.startsWith('!');
+            if (!exclude) {
+                line = line.slice(1).trim();
+            }
+
+            const pattern = path.posix.normalize(line.replace(/\\/g, '/')).replace(/^\/+/, '').replace(/\/+$/, '');
+            if (!pattern || pattern === '.') {
+                continue;
+            }
+            this.rules.push({ regex: DockerIgnore.toRegex(pattern), exclude });
+        }
+    }
+
+    static load(contextDir: string): DockerIgnore {
+        const ignorePath = path.join(contextDir, '.dockerignore');
+        return new DockerIgnore(fs.existsSync(ignorePath) ? fs.readFileSync(ignorePath, 'utf-8') : '');
+    }
+
+    get hasExceptions(): boolean {
+        return this.rules.some((rule) => !rule.exclude);
+    }
+
+    isIgnored(relativePath: string): boolean {
+        // A rule matching a parent directory also applies to everything below it
+        const parts = relativePath.split('/');
+        const candidates = parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+
+        let ignored = false;
+        for (const rule of this.rules) {
+            if (candidates.some((candidate) => rule.regex.test(candidate))) {
+                ignored = rule.exclude;
+            }
+        }
+        return ignored;
+    }
+
+    private static toRegex(pattern: string): RegExp {
+        let source = '';
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (char === '*') {
+                if (pattern[i + 1] === '*') {
+                    // "**/" also matches zero directories
+                    const slash = pattern[i + 2] === '/';
+                    source += slash ? '(?:.*/)?' : '.*';
+                    i += slash ? 2 : 1;
+                } else {
+                    source += '[^/]*';
+                }
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '[') {
+                const end = pattern.indexOf(']', i + 1);
+                if (end === -1) {
+                    source += '\\[';
+                } else {
+                    source += '[' + pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                    i = end;
+                }
+            } else {
+                source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+            }
+        }
+        return new RegExp(`^${source}$`);
+    }
+}
+
+export function collectBuildContext(contextDir: string, dockerfilePath: string): BuildContext {
+    if (!fs.existsSync(contextDir) || !fs.statSync(contextDir).isDirectory()) {
+        throw new Error(`Build context directory not found: ${contextDir}`);
+    }
+
+    const files = listFiles(contextDir);
+
+    // The engine always needs the Dockerfile, even when .dockerignore lists it
+    const relativeDockerfile = path.relative(contextDir, dockerfilePath).split(path.sep).join('/');
+    const insideContext = !relativeDockerfile.startsWith('../') && !path.isAbsolute(relativeDockerfile);
+    const dockerfileEntry = insideContext ? relativeDockerfile : EXTERNAL_DOCKERFILE_NAME;
+    if (insideContext && !files.includes(dockerfileEntry)) {
+        files.push(dockerfileEntry);
+    }
+
+    return { contextDir, dockerfilePath, dockerfileEntry, files };
+}
+
+// Hash of everything that influences the image: context file names, contents and
+// modes, the Dockerfile and the build options
+export async function hashBuildContext(context: BuildContext, options: object): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    hash.update(JSON.stringify(options));
+    hash.update('\0');
+    hash.update(await hashFile(context.dockerfilePath));
+
+    for (const file of context.files) {
+        const fullPath = path.join(context.contextDir, file);
+        const stat = await fs.promises.lstat(fullPath);
+        hash.update(`\0${file}\0${stat.mode}\0`);
+        hash.update(stat.isSymbolicLink() ? await fs.promises.readlink(fullPath) : await hashFile(fullPath, stat));
+    }
+
+    return hash.digest('hex');
+}
+
+// Files are streamed into the tar one after another while the engine reads it
+export function packBuildContext(context: BuildContext): tar.Pack {
+    const pack = tar.pack();
+    fillPack(pack, async () => {
+        await addFiles(pack, context.contextDir, context.files);
+        if (context.dockerfileEntry === EXTERNAL_DOCKERFILE_NAME) {
+            const stat = await fs.promises.stat(context.dockerfilePath);
+            await addFile(pack, context.dockerfilePath, { name: EXTERNAL_DOCKERFILE_NAME, size: stat.size, mode: stat.mode });
+        }
+    });
+    return pack;
+}
+
+// Tar of a directory minus whatever its .dockerignore excludes, used to copy the
+// workspace to engines that can't bind-mount it
+export function packDirectory(dir: string): { pack: tar.Pack; fileCount: number } {
+    const files = listFiles(dir);
+    const pack = tar.pack();
+    fillPack(pack, () => addFiles(pack, dir, files));
+    return { pack, fileCount: files.length };
+}
+
+// Sorted POSIX paths of the files below dir that its .dockerignore keeps
+function listFiles(rootDir: string): string[] {
+    const ignore = DockerIgnore.load(rootDir);
+    const files: string[] = [];
+
+    const walk = (dir: string, relativeDir: string) => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            const ignored = ignore.isIgnored(relativePath);
+
+            if (entry.isDirectory()) {
+                // An exception rule may re-include something below an ignored directory
+                if (!ignored || ignore.hasExceptions) {
+                    walk(path.join(dir, entry.name), relativePath);
+                }
+            } else if (!ignored && (entry.isFile() || entry.isSymbolicLink())) {
+                files.push(relativePath);
+            }
+        }
+    };
+    walk(rootDir, '');
+    return files.sort();
+}
+
+// sha256 of a file's content, read as a stream
+async function hashFile(fullPath: string, stat?: fs.Stats): Promise<string> {
+    const { size, mtimeMs } = stat ?? await fs.promises.stat(fullPath);
+    const cached = fileHashes.get(fullPath);
+    if (cached && cached.size === size && cached.mtimeMs === mtimeMs) {
+        return cached.hash;
+    }
+
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of fs.createReadStream(fullPath)) {
+        hash.update(chunk);
+    }
+    const digest = hash.digest('hex');
+    fileHashes.set(fullPath, { size, mtimeMs, hash: digest });
+    return digest;
+}
+
+// Runs fill and then finalizes the pack; a failure ends the stream with that error
+function fillPack(pack: tar.Pack, fill: () => Promise<void>): void {
+    fill().then(
+        () => pack.finalize(),
+        (error: Error) => pack.destroy(error)
+    );
+}
+
+async function addFiles(pack: tar.Pack, dir: string, files: string[]): Promise<void> {
+    for (const file of files) {
+        const fullPath = path.join(dir, file);
+        const stat = await fs.promises.lstat(fullPath);
+        if (stat.isSymbolicLink()) {
+            pack.entry({ name: file, type: 'symlink', linkname: await fs.promises.readlink(fullPath), mode: stat.mode });
+        } else {
+            await addFile(pack, fullPath, { name: file, size: stat.size, mode: stat.mode, mtime: stat.mtime });
+        }
+    }
+}
+
+// Entries must be written one at a time; resolves once this one is complete
+function addFile(pack: tar.Pack, fullPath: string, header: { name: string; size: number; mode: number; mtime?: Date }): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const entry = pack.entry(header, (error) => (error ? reject(error) : resolve()));
+        const source = fs.createReadStream(fullPath);
+        source.on('error', (error) => {
+            entry.destroy(error);
+            reject(error);
+        });
+        source.pipe(entry);
+    });
+}
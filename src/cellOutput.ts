@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import { KernelMessage } from './kernelSession';
+
+// Applies terminal semantics for carriage returns so progress bars (tqdm, pip)
+// overwrite their line instead of piling up. A trailing carriage return is kept
+// so the next chunk of the same stream still overwrites the line.
+export function applyCarriageReturns(text: string): string {
+    if (!text.includes('\r')) {
+        return text;
+    }
+
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    return lines.map((line) => {
+        const segments = line.split('\r');
+        let current = '';
+        for (const segment of segments) {
+            current = segment + current.slice(segment.length);
+        }
+        return line.endsWith('\r') ? current + '\r' : current;
+    }).join('\n');
+}
+
+export function streamOutputItem(name: string, text: string): vscode.NotebookCellOutputItem {
+    return name === 'stderr'
+        ? vscode.NotebookCellOutputItem.stderr(text)
+        : vscode.NotebookCellOutputItem.stdout(text);
+}
+
+// The error item is what VS Code renders; the metadata keeps the traceback exactly,
+// since its entries may contain newlines of their own
+export function errorOutput(content: { ename?: string; evalue?: string; traceback?: string[] }, original?: object): vscode.NotebookCellOutput {
+    return new vscode.NotebookCellOutput([
+        vscode.NotebookCellOutputItem.error({
+            name: content.ename || 'Error',
+            message: content.evalue || '',
+            stack: (content.traceback || []).join('\n')
+        })
+    ], {
+        outputType: 'error',
+        ename: content.ename ?? '',
+        evalue: content.evalue ?? '',
+        traceback: content.traceback || [],
+        original
+    });
+}
+
+// Binary MIME types travel base64-encoded in Jupyter messages and .ipynb files
+export const BASE64_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/bmp', 'image/webp'];
+
+function isJsonMime(mime: string): boolean {
+    return mime === 'application/json' || mime.endsWith('+json');
+}
+
+function joinMultiline(value: string | string[]): string {
+    return Array.isArray(value) ? value.join('') : value;
+}
+
+// Output data keyed by MIME type, as in display_data messages and .ipynb outputs
+export type MimeBundle = { [mime: string]: unknown };
+
+export function mimeBundleToItems(data: MimeBundle): vscode.NotebookCellOutputItem[] {
+    const items: vscode.NotebookCellOutputItem[] = [];
+
+    for (const [mime, value] of Object.entries(data || {})) {
+        if (BASE64_MIME_TYPES.includes(mime)) {
+            const bytes = Buffer.from(joinMultiline(value as string | string[]).replace(/\s/g, ''), 'base64');
+            items.push(new vscode.NotebookCellOutputItem(bytes, mime));
+        } else if (isJsonMime(mime)) {
+            items.push(vscode.NotebookCellOutputItem.json(value, mime));
+        } else if (typeof value === 'string' || Array.isArray(value)) {
+            items.push(vscode.NotebookCellOutputItem.text(joinMultiline(value), mime));
+        } else {
+            items.push(vscode.NotebookCellOutputItem.json(value, mime));
+        }
+    }
+
+    return items;
+}
+
+export function itemsToMimeBundle(items: readonly vscode.NotebookCellOutputItem[]): MimeBundle {
+    const data: MimeBundle = {};
+
+    for (const item of items) {
+        if (BASE64_MIME_TYPES.includes(item.mime)) {
+            data[item.mime] = Buffer.from(item.data).toString('base64');
+        } else if (isJsonMime(item.mime)) {
+            data[item.mime] = JSON.parse(new TextDecoder().decode(item.data));
+        } else {
+            data[item.mime] = new TextDecoder().decode(item.data);
+        }
+    }
+
+    return data;
+}
+
+export class CellOutputWriter {
+    private streamOutput: vscode.NotebookCellOutput | undefined;
+    private streamName: string | undefined;
+    private streamText = '';
+    private clearPending = false;
+    // Outputs created with a display_id, so update_display_data can replace them
+    private displays = new Map<string, vscode.NotebookCellOutput[]>();
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private execution: vscode.NotebookCellExecution) {}
+
+    handle(msg: KernelMessage): void {
+        switch (msg.header.msg_type) {
+            case 'stream':
+                this.enqueue(() => this.writeStream(msg.content.name || 'stdout', msg.content.text || ''));
+                break;
+            case 'clear_output':
+                if (msg.content.wait) {
+                    // Clear right before the next output arrives to avoid flicker
+                    this.clearPending = true;
+                } else {
+                    this.enqueue(() => this.clear());
+                }
+                break;
+            case 'execute_result':
+            case 'display_data':
+                this.enqueue(() => this.appendDisplay(msg));
+                break;
+            case 'update_display_data':
+                this.enqueue(() => this.updateDisplay(msg));
+                break;
+            case 'error':
+                this.enqueue(() => this.append(errorOutput(msg.content)));
+                break;
+        }
+    }
+
+    // Shows the prompt and the answer of an input() call the way a terminal would
+    echoInput(prompt: string, value: string): void {
+        this.enqueue(() => this.writeStream('stdout', `${prompt}${value}\n`));
+    }
+
+    // Resolves once every queued output update has been applied
+    flush(): Promise<void> {
+        return this.queue;
+    }
+
+    private enqueue(update: () => Thenable<void>): void {
+        this.queue = this.queue
+            .then(async () => {
+                if (this.clearPending) {
+                    this.clearPending = false;
+                    await this.clear();
+                }
+                await update();
+            })
+            .catch((error) => console.error('Failed to update cell output:', error));
+    }
+
+    private async writeStream(name: string, text: string): Promise<void> {
+        if (this.streamOutput && this.streamName === name) {
+            this.streamText = applyCarriageReturns(this.streamText + text);
+            await this.execution.replaceOutputItems(
+                streamOutputItem(name, this.streamText),
+                this.streamOutput
+            );
+            return;
+        }
+
+        this.streamText = applyCarriageReturns(text);
+        const output = new vscode.NotebookCellOutput([streamOutputItem(name, this.streamText)]);
+        await this.execution.appendOutput(output);
+        this.streamOutput = output;
+        this.streamName = name;
+    }
+
+    private async appendDisplay(msg: KernelMessage): Promise<void> {
+        const output = new vscode.NotebookCellOutput(mimeBundleToItems(msg.content.data || {}), {
+            outputType: msg.header.msg_type,
+            executionCount: msg.content.execution_count,
+            metadata: msg.content.metadata || {}
+        });
+        await this.append(output);
+
+        const displayId = msg.content.transient?.display_id;
+        if (displayId) {
+            this.displays.set(displayId, [...(this.displays.get(displayId) || []), output]);
+        }
+    }
+
+    private async updateDisplay(msg: KernelMessage): Promise<void> {
+        // Only displays created by this execution can be updated in place
+        const displayId = msg.content.transient?.display_id;
+        for (const output of (displayId && this.displays.get(displayId)) || []) {
+            await this.execution.replaceOutputItems(mimeBundleToItems(msg.content.data || {}), output);
+        }
+    }
+
+    private async append(output: vscode.NotebookCellOutput): Promise<void> {
+        await this.execution.appendOutput(output);
+        this.streamOutput = undefined;
+        this.streamName = undefined;
+    }
+
+    private async clear(): Promise<void> {
+        await this.execution.clearOutput();
+        this.displays.clear();
+        this.streamOutput = undefined;
+        this.streamName = undefined;
+        this.streamText = '';
+    }
+}
@@ -0,0 +1,69 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+// Thin wrapper around the Compose CLI. Compose owns dependency ordering, networks
+// and named volumes, so the project is driven through `docker compose` rather than
+// re-implemented on top of dockerode.
+export class ComposeProject {
+    private command: string[] | undefined;
+
+    // env selects the engine (DOCKER_HOST, DOCKER_CONTEXT) for the CLI
+    constructor(private files: string[], private env: NodeJS.ProcessEnv = process.env) {
+        if (files.length === 0) {
+            throw new Error('No compose file configured');
+        }
+    }
+
+    async listServices(): Promise<string[]> {
+        const output = await this.run(['config', '--services']);
+        return output.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    }
+
+    // Starts the service and everything it depends on
+    async up(services: string[], build = false): Promise<void> {
+        await this.run(['up', '--detach', ...(build ? ['--build'] : []), ...services]);
+    }
+
+    async stop(services: string[]): Promise<void> {
+        await this.run(['stop', ...services]);
+    }
+
+    async containerId(service: string): Promise<string | undefined> {
+        const output = await this.run(['ps', '--quiet', service]);
+        return output.split(/\r?\n/).map((line) => line.trim()).find(Boolean);
+    }
+
+    private async run(args: string[]): Promise<string> {
+        const fileArgs = this.files.flatMap((file) => ['--file', file]);
+        const cwd = path.dirname(this.files[0]);
+
+        if (this.command) {
+            return execCommand(this.command, [...fileArgs, ...args], cwd, this.env);
+        }
+
+        // Prefer the Compose v2 plugin and fall back to the standalone v1 binary
+        try {
+            const output = await execCommand(['docker', 'compose'], [...fileArgs, ...args], cwd, this.env);
+            this.command = ['docker', 'compose'];
+            return output;
+        } catch (error) {
+            const output = await execCommand(['docker-compose'], [...fileArgs, ...args], cwd, this.env).catch(() => {
+                throw error;
+            });
+            this.command = ['docker-compose'];
+            return output;
+        }
+    }
+}
+
+function execCommand(command: string[], args: string[], cwd: string, env: NodeJS.ProcessEnv): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile(command[0], [...command.slice(1), ...args], { cwd, env, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(`${command.join(' ')} ${args.join(' ')} failed: ${stderr.trim() || error.message}`));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
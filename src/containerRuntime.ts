@@ -0,0 +1,509 @@
+import * as vscode from 'vscode';
+import Docker, { ContainerInfo } from 'dockerode';
+import * as tar from 'tar-stream';
+import { PassThrough, Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { DockerEngine, findPodmanEngine, hasLocalDockerSocket, resolveDockerEngine } from './dockerEngine';
+import { RegistryAuth } from './registryAuth';
+
+export type RuntimeKind = 'docker' | 'podman';
+
+// Runtime containers run tail -f /dev/null as PID 1, which ignores SIGTERM, so a long
+// grace period only delays the SIGKILL (and outlasts VS Code's shutdown)
+const STOP_TIMEOUT_SECONDS = 1;
+
+export interface ExecResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+}
+
+// A running exec with an open stdin, e.g. the kernel bridge
+export interface ExecProcess {
+    stdin: NodeJS.WritableStream;
+    stdout: NodeJS.ReadableStream;
+    stderr: NodeJS.ReadableStream;
+}
+
+export interface BindMount {
+    source: string;
+    target: string;
+    readOnly?: boolean;
+}
+
+export interface ContainerSpec {
+    name: string;
+    image: string;
+    labels: { [label: string]: string };
+    env: string[];
+    user?: string;
+    workingDir: string;
+    // Host directories owned by the runtime (the workspace); runtimes add their own
+    // relabelling or ownership options. Mounts configured by the user are never relabelled
+    binds: BindMount[];
+    mounts: Docker.MountSettings[];
+    cmd: string[];
+    // Sandboxing; unset fields keep the engine defaults
+    networkMode?: string;
+    capDrop?: string[];
+    securityOpt?: string[];
+    pidsLimit?: number;
+    // Resource limits; sizes in bytes
+    memory?: number;
+    memorySwap?: number;
+    cpus?: number;
+    shmSize?: number;
+    ulimits?: { Name: string; Soft: number; Hard: number }[];
+}
+
+export interface ImageBuildOptions {
+    tag: string;
+    dockerfile: string;
+    labels: { [label: string]: string };
+    buildArgs: { [name: string]: string };
+    target?: string;
+    platform?: string;
+}
+
+export interface ContainerStats {
+    cpuPercent: number;
+    memoryUsage: number;
+    memoryLimit: number;
+}
+
+// A JSON message from a build, pull or load progress stream
+export interface ProgressEvent {
+    stream?: string;
+    status?: string;
+    id?: string;
+    progressDetail?: { current?: number; total?: number };
+    error?: string;
+    errorDetail?: { message?: string };
+    [key: string]: unknown;
+}
+
+// An entry of the engine's events stream (docker events)
+export interface EngineEvent {
+    Type: string;
+    Action: string;
+    Actor: { ID: string; Attributes: { [name: string]: string } };
+}
+
+// Everything the extension asks of a container engine. Containers are addressed by
+// name or id so callers never hold engine-specific handles.
+export interface ContainerRuntime {
+    readonly kind: RuntimeKind;
+    readonly engine: DockerEngine;
+
+    inspectContainer(nameOrId: string): Promise<Docker.ContainerInspectInfo | undefined>;
+    // Running containers, or all containers carrying a label when given
+    listContainers(label?: string): Promise<ContainerInfo[]>;
+    createContainer(spec: ContainerSpec): Promise<string>;
+    startContainer(nameOrId: string): Promise<void>;
+    stopContainer(nameOrId: string): Promise<void>;
+    // force removes a running container without stopping it first
+    removeContainer(nameOrId: string, force?: boolean): Promise<void>;
+
+    inspectImage(ref: string): Promise<Docker.ImageInspectInfo | undefined>;
+    listImages(label: string): Promise<Docker.ImageInfo[]>;
+    removeImage(ref: string): Promise<void>;
+    buildImage(context: tar.Pack, options: ImageBuildOptions, onProgress: (event: ProgressEvent) => void): Promise<void>;
+    pullImage(ref: string, auth: RegistryAuth | undefined, onProgress: (event: ProgressEvent) => void): Promise<void>;
+    // docker commit; the labels are added to those the container already has
+    commitContainer(nameOrId: string, repository: string, tag: string, comment: string, labels: { [label: string]: string }): Promise<void>;
+    // docker save and docker load; loadImage returns the references it loaded
+    saveImage(ref: string): Promise<NodeJS.ReadableStream>;
+    loadImage(archive: NodeJS.ReadableStream): Promise<string[]>;
+
+    // onOutput receives stdout and stderr as they arrive, e.g. for progress messages
+    exec(nameOrId: string, cmd: string[], user?: string, onOutput?: (text: string) => void): Promise<ExecResult>;
+    // env adds variables to the process only, leaving the container config untouched
+    execInteractive(nameOrId: string, cmd: string[], user?: string, env?: string[]): Promise<ExecProcess>;
+    putArchive(nameOrId: string, archive: tar.Pack, containerPath: string): Promise<void>;
+    stats(nameOrId: string): Promise<ContainerStats>;
+    logs(nameOrId: string, tail: number): Promise<string>;
+
+    // Calls onEvent for container and image events until the returned disposable is disposed
+    watchEvents(onEvent: (event: EngineEvent) => void): Promise<vscode.Disposable>;
+}
+
+// Picks the engine for a runtime. The kind is undefined when it has to be probed,
+// because Podman can also sit behind a Docker-compatible socket.
+export function selectEngine(config: vscode.WorkspaceConfiguration): { engine: DockerEngine; kind: RuntimeKind | undefined } {
+    const setting = config.get<RuntimeKind | 'auto'>('containerRuntime', 'auto');
+    const engine = resolveDockerEngine(config);
+
+    if (setting === 'docker') {
+        return { engine, kind: 'docker' };
+    }
+
+    // An explicitly configured endpoint is used as is; otherwise look for Podman's socket
+    const usePodmanSocket = engine.source === 'default' && (setting === 'podman' || !hasLocalDockerSocket());
+    const podman = usePodmanSocket ? findPodmanEngine() : undefined;
+    if (podman) {
+        return { engine: podman, kind: 'podman' };
+    }
+    if (setting === 'podman' && engine.source === 'default') {
+        throw new Error('No Podman socket found. Start it with "systemctl --user start podman.socket" or "podman machine start"');
+    }
+    return { engine, kind: setting === 'podman' ? 'podman' : undefined };
+}
+
+export async function createContainerRuntime(engine: DockerEngine, kind: RuntimeKind | undefined): Promise<ContainerRuntime> {
+    const docker = new Docker(engine.options);
+    if (!kind) {
+        kind = 'docker';
+        try {
+            // Podman's compat API reports itself as a "Podman Engine" component
+            const version = await docker.version();
+            if (version.Components?.some((component) => /podman/i.test(component.Name))) {
+                kind = 'podman';
+            }
+        } catch (error) {
+            // Connection errors surface on first real use
+        }
+    }
+    return kind === 'podman' ? new PodmanRuntime(docker, engine) : new DockerRuntime(docker, engine);
+}
+
+export class DockerRuntime implements ContainerRuntime {
+    readonly kind: RuntimeKind = 'docker';
+
+    constructor(protected docker: Docker, readonly engine: DockerEngine) {}
+
+    async inspectContainer(nameOrId: string): Promise<Docker.ContainerInspectInfo | undefined> {
+        try {
+            return await this.docker.getContainer(nameOrId).inspect();
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    listContainers(label?: string): Promise<ContainerInfo[]> {
+        return label
+            ? this.docker.listContainers({ all: true, filters: { label: [label] } })
+            : this.docker.listContainers();
+    }
+
+    async createContainer(spec: ContainerSpec): Promise<string> {
+        const container = await this.docker.createContainer(this.toCreateOptions(spec));
+        return container.id;
+    }
+
+    async startContainer(nameOrId: string): Promise<void> {
+        await this.docker.getContainer(nameOrId).start();
+    }
+
+    async stopContainer(nameOrId: string): Promise<void> {
+        await this.docker.getContainer(nameOrId).stop({ t: STOP_TIMEOUT_SECONDS });
+    }
+
+    async removeContainer(nameOrId: string, force = false): Promise<void> {
+        await this.docker.getContainer(nameOrId).remove({ force });
+    }
+
+    async inspectImage(ref: string): Promise<Docker.ImageInspectInfo | undefined> {
+        try {
+            return await this.docker.getImage(ref).inspect();
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    listImages(label: string): Promise<Docker.ImageInfo[]> {
+        return this.docker.listImages({ filters: { label: [label] } });
+    }
+
+    async removeImage(ref: string): Promise<void> {
+        await this.docker.getImage(ref).remove();
+    }
+
+    async buildImage(context: tar.Pack, options: ImageBuildOptions, onProgress: (event: ProgressEvent) => void): Promise<void> {
+        const buildOptions: { [key: string]: unknown } = {
+            t: options.tag,
+            dockerfile: options.dockerfile,
+            labels: options.labels
+        };
+        if (Object.keys(options.buildArgs).length > 0) {
+            buildOptions.buildargs = options.buildArgs;
+        }
+        if (options.target) {
+            buildOptions.target = options.target;
+        }
+        if (options.platform) {
+            buildOptions.platform = options.platform;
+        }
+
+        // tar-stream packs are streamx streams; the engine client expects a Node stream
+        const stream = await this.docker.buildImage(Readable.from(context, { objectMode: false }), buildOptions);
+        await this.followProgress(stream, onProgress);
+    }
+
+    async pullImage(ref: string, auth: RegistryAuth | undefined, onProgress: (event: ProgressEvent) => void): Promise<void> {
+        const stream = await this.docker.pull(ref, auth ? { authconfig: auth } : {});
+        await this.followProgress(stream, onProgress);
+    }
+
+    async commitContainer(nameOrId: string, repository: string, tag: string, comment: string, labels: { [label: string]: string }): Promise<void> {
+        // Labels go in as Dockerfile instructions, like docker commit --change
+        const changes = Object.entries(labels).map(([name, value]) => `LABEL ${JSON.stringify(name)}=${JSON.stringify(value)}`);
+        await this.docker.getContainer(nameOrId).commit({ repo: repository, tag, comment, changes });
+    }
+
+    saveImage(ref: string): Promise<NodeJS.ReadableStream> {
+        return this.docker.getImage(ref).get();
+    }
+
+    async loadImage(archive: NodeJS.ReadableStream): Promise<string[]> {
+        const stream = await this.docker.loadImage(archive);
+        const loaded: string[] = [];
+        await this.followProgress(stream, (event) => {
+            // "Loaded image: name:tag", or "Loaded image ID: sha256:..." for untagged images
+            const match = /^Loaded image(?: ID)?: (\S+)/.exec(event.stream || '');
+            if (match) {
+                loaded.push(match[1]);
+            }
+        });
+        return loaded;
+    }
+
+    async exec(nameOrId: string, cmd: string[], user?: string, onOutput?: (text: string) => void): Promise<ExecResult> {
+        const exec = await this.docker.getContainer(nameOrId).exec({
+            Cmd: cmd,
+            User: user,
+            AttachStdout: true,
+            AttachStderr: true,
+            Tty: false
+        });
+
+        const stream = await exec.start({ hijack: true, stdin: false });
+        const { stdout, stderr } = this.demuxStream(stream);
+
+        const stdoutChunks: Buffer[] = [];
+        const stderrChunks: Buffer[] = [];
+        // A character split across chunks is held back until its remaining bytes arrive
+        const stdoutDecoder = new StringDecoder('utf-8');
+        const stderrDecoder = new StringDecoder('utf-8');
+        stdout.on('data', (chunk: Buffer) => {
+            stdoutChunks.push(chunk);
+            onOutput?.(stdoutDecoder.write(chunk));
+        });
+        stderr.on('data', (chunk: Buffer) => {
+            stderrChunks.push(chunk);
+            onOutput?.(stderrDecoder.write(chunk));
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            stream.on('end', resolve);
+            stream.on('error', reject);
+        });
+        const rest = stdoutDecoder.end() + stderrDecoder.end();
+        if (rest) {
+            onOutput?.(rest);
+        }
+
+        const info = await exec.inspect();
+        return {
+            stdout: Buffer.concat(stdoutChunks).toString('utf-8'),
+            stderr: Buffer.concat(stderrChunks).toString('utf-8'),
+            exitCode: info.ExitCode ?? 0
+        };
+    }
+
+    async execInteractive(nameOrId: string, cmd: string[], user?: string, env?: string[]): Promise<ExecProcess> {
+        const exec = await this.docker.getContainer(nameOrId).exec({
+            Cmd: cmd,
+            User: user,
+            Env: env,
+            AttachStdin: true,
+            AttachStdout: true,
+            AttachStderr: true,
+            Tty: false
+        });
+
+        const stream = await exec.start({ hijack: true, stdin: true });
+        const { stdout, stderr } = this.demuxStream(stream);
+
+        return { stdin: stream, stdout, stderr };
+    }
+
+    async putArchive(nameOrId: string, archive: tar.Pack, containerPath: string): Promise<void> {
+        await this.docker.getContainer(nameOrId).putArchive(Readable.from(archive, { objectMode: false }), { path: containerPath });
+    }
+
+    async stats(nameOrId: string): Promise<ContainerStats> {
+        const stats = await this.docker.getContainer(nameOrId).stats({ stream: false });
+
+        // Same formula as `docker stats`: CPU time used since the previous sample,
+        // relative to the host's CPU time, scaled by the number of CPUs
+        const cpuDelta = stats.cpu_stats.cpu_usage.total_usage - stats.precpu_stats.cpu_usage.total_usage;
+        const systemDelta = (stats.cpu_stats.system_cpu_usage ?? 0) - (stats.precpu_stats.system_cpu_usage ?? 0);
+        const cpus = stats.cpu_stats.online_cpus || stats.cpu_stats.cpu_usage.percpu_usage?.length || 1;
+        const cpuPercent = systemDelta > 0 && cpuDelta > 0 ? (cpuDelta / systemDelta) * cpus * 100 : 0;
+
+        // Page cache counts towards usage but is reclaimable, so leave it out like the CLI
+        const cache = stats.memory_stats.stats?.inactive_file ?? stats.memory_stats.stats?.cache ?? 0;
+        return {
+            cpuPercent,
+            memoryUsage: Math.max(0, (stats.memory_stats.usage ?? 0) - cache),
+            memoryLimit: stats.memory_stats.limit ?? 0
+        };
+    }
+
+    async logs(nameOrId: string, tail: number): Promise<string> {
+        const container = this.docker.getContainer(nameOrId);
+        const info = await container.inspect();
+        // Without follow the engine answers with the whole log in one buffer
+        const output: unknown = await container.logs({ stdout: true, stderr: true, timestamps: true, tail, follow: false });
+        const buffer = Buffer.isBuffer(output) ? output : Buffer.from(String(output));
+        return info.Config.Tty ? buffer.toString('utf-8') : demuxBuffer(buffer);
+    }
+
+    async watchEvents(onEvent: (event: EngineEvent) => void): Promise<vscode.Disposable> {
+        const stream = await this.docker.getEvents({ filters: { type: ['container', 'image'] } });
+        const decoder = new StringDecoder('utf-8');
+        let buffer = '';
+        stream.on('data', (chunk: Buffer) => {
+            buffer += decoder.write(chunk);
+            let newline = buffer.indexOf('\n');
+            while (newline !== -1) {
+                const line = buffer.slice(0, newline).trim();
+                buffer = buffer.slice(newline + 1);
+                newline = buffer.indexOf('\n');
+                if (line) {
+                    try {
+                        onEvent(JSON.parse(line));
+                    } catch (error) {
+                        console.error('Unparseable engine event:', line);
+                    }
+                }
+            }
+        });
+        stream.on('error', (error) => console.error('Engine events stream failed:', error));
+
+        return new vscode.Disposable(() => {
+            (stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+        });
+    }
+
+    protected toCreateOptions(spec: ContainerSpec): Docker.ContainerCreateOptions {
+        return {
+            Image: spec.image,
+            name: spec.name,
+            Tty: true,
+            OpenStdin: true,
+            Labels: spec.labels,
+            WorkingDir: spec.workingDir,
+            User: spec.user,
+            Env: spec.env,
+            HostConfig: {
+                Binds: spec.binds.map((bind) => `${bind.source}:${bind.target}${bind.readOnly ? ':ro' : ''}`),
+                Mounts: spec.mounts,
+                AutoRemove: false,
+                NetworkMode: spec.networkMode,
+                CapDrop: spec.capDrop,
+                SecurityOpt: spec.securityOpt,
+                PidsLimit: spec.pidsLimit,
+                Memory: spec.memory,
+                MemorySwap: spec.memorySwap,
+                // --cpus is a CFS quota per 100ms period
+                CpuPeriod: spec.cpus ? 100000 : undefined,
+                CpuQuota: spec.cpus ? Math.round(spec.cpus * 100000) : undefined,
+                ShmSize: spec.shmSize,
+                Ulimits: spec.ulimits
+            },
+            Cmd: spec.cmd
+        };
+    }
+
+    // Waits for a build or pull progress stream to finish. Failures arrive as error
+    // events in the JSON stream, not as stream errors.
+    private followProgress(stream: NodeJS.ReadableStream, onProgress: (event: ProgressEvent) => void): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            let streamError: string | undefined;
+            this.docker.modem.followProgress(stream, (err: Error | null) => {
+                if (err) {
+                    reject(err);
+                } else if (streamError) {
+                    reject(new Error(streamError));
+                } else {
+                    resolve();
+                }
+            }, (event: ProgressEvent) => {
+                if (event.error) {
+                    streamError = event.errorDetail?.message || event.error;
+                    console.error(streamError);
+                } else {
+                    onProgress(event);
+                }
+            });
+        });
+    }
+
+    // Exec streams without a TTY multiplex stdout and stderr into 8-byte framed chunks
+    private demuxStream(stream: NodeJS.ReadableStream): { stdout: PassThrough; stderr: PassThrough } {
+        const stdout = new PassThrough();
+        const stderr = new PassThrough();
+        this.docker.modem.demuxStream(stream, stdout, stderr);
+        stream.on('end', () => {
+            stdout.end();
+            stderr.end();
+        });
+        return { stdout, stderr };
+    }
+}
+
+// Podman serves the Docker API, but rootless Podman maps the host user to root
+// inside the container and SELinux hosts need the workspace bind relabelled
+export class PodmanRuntime extends DockerRuntime {
+    readonly kind: RuntimeKind = 'podman';
+    private rootless: boolean | undefined;
+
+    async createContainer(spec: ContainerSpec): Promise<string> {
+        const options = this.toCreateOptions(spec);
+
+        // The workspace gets a private SELinux label so the container can use it. Other
+        // binds (datasets, ~/.ssh) are often shared with the host or other containers,
+        // which a private relabel would lock out, so they keep their labels.
+        // Podman ignores "Z" on hosts without SELinux.
+        const hostConfig: Docker.HostConfig = {
+            ...options.HostConfig,
+            Binds: spec.binds.map((bind) => `${bind.source}:${bind.target}:${bind.readOnly ? 'ro' : 'rw'},Z`)
+        };
+
+        // keep-id runs processes as the host user, so files written to the workspace
+        // are not owned by a subordinate uid
+        if (await this.isRootless()) {
+            hostConfig.UsernsMode = 'keep-id';
+        }
+
+        const container = await this.docker.createContainer({ ...options, HostConfig: hostConfig });
+        return container.id;
+    }
+
+    private async isRootless(): Promise<boolean> {
+        if (this.rootless === undefined) {
+            try {
+                const info = await this.docker.info();
+                const securityOptions: string[] = info.SecurityOptions || [];
+                this.rootless = securityOptions.some((option) => option.includes('rootless'));
+            } catch (error) {
+                this.rootless = false;
+            }
+        }
+        return this.rootless;
+    }
+}
+
+// Splits a non-TTY log buffer (8-byte frame headers: stream type, 3 zero bytes,
+// big-endian payload length) into plain text
+function demuxBuffer(buffer: Buffer): string {
+    const parts: Buffer[] = [];
+    let offset = 0;
+    while (offset + 8 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset + 4);
+        parts.push(buffer.subarray(offset + 8, offset + 8 + length));
+        offset += 8 + length;
+    }
+    return Buffer.concat(parts).toString('utf-8');
+}
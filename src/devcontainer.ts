@@ -0,0 +1,137 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as jsonc from 'jsonc-parser';
+import Docker from 'dockerode';
+
+// The subset of devcontainer.json (https://containers.dev/implementors/json_reference/)
+// that matters for running a notebook kernel
+export interface DevcontainerConfig {
+    configPath: string;
+    image?: string;
+    build?: {
+        dockerfilePath: string;
+        contextDir: string;
+        args: { [name: string]: string };
+        target?: string;
+    };
+    compose?: {
+        files: string[];
+        service: string;
+        runServices?: string[];
+    };
+    workspaceFolder: string;
+    mounts: Docker.MountSettings[];
+    containerEnv: { [name: string]: string };
+    containerUser?: string;
+    remoteUser?: string;
+    postCreateCommand?: string | string[] | { [name: string]: string | string[] };
+}
+
+export function loadDevcontainerConfig(configPath: string, workspaceRoot: string): DevcontainerConfig {
+    if (!fs.existsSync(configPath)) {
+        throw new Error(`devcontainer.json not found: ${configPath}`);
+    }
+
+    const errors: jsonc.ParseError[] = [];
+    const raw = jsonc.parse(fs.readFileSync(configPath, 'utf-8'), errors, { allowTrailingComma: true });
+    if (errors.length > 0 || !raw || typeof raw !== 'object') {
+        const first = errors[0];
+        throw new Error(`Invalid devcontainer.json${first ? ` (${jsonc.printParseErrorCode(first.error)} at offset ${first.offset})` : ''}`);
+    }
+
+    const configDir = path.dirname(configPath);
+    const workspaceFolder = raw.workspaceFolder || '/workspace';
+    const substitute = (value: string) => substituteVariables(value, workspaceRoot, workspaceFolder);
+
+    const config: DevcontainerConfig = {
+        configPath,
+        workspaceFolder: substitute(workspaceFolder),
+        mounts: (raw.mounts || []).map((mount: string | { [key: string]: unknown }) => parseMount(mount, substitute)),
+        containerEnv: Object.fromEntries(
+            Object.entries(raw.containerEnv || {}).map(([name, value]) => [name, substitute(String(value))])
+        ),
+        containerUser: raw.containerUser,
+        remoteUser: raw.remoteUser,
+        postCreateCommand: raw.postCreateCommand
+    };
+
+    if (raw.dockerComposeFile) {
+        const files = Array.isArray(raw.dockerComposeFile) ? raw.dockerComposeFile : [raw.dockerComposeFile];
+        if (!raw.service) {
+            throw new Error('devcontainer.json uses dockerComposeFile but does not name a service');
+        }
+        config.compose = {
+            files: files.map((file: string) => path.resolve(configDir, substitute(file))),
+            service: raw.service,
+            runServices: raw.runServices
+        };
+    } else if (raw.build || raw.dockerFile) {
+        const build = raw.build || {};
+        const dockerfile = build.dockerfile || raw.dockerFile;
+        const dockerfilePath = path.resolve(configDir, substitute(dockerfile));
+        config.build = {
+            dockerfilePath,
+            contextDir: path.resolve(configDir, substitute(build.context || raw.context || '.')),
+            args: Object.fromEntries(
+                Object.entries(build.args || {}).map(([name, value]) => [name, substitute(String(value))])
+            ),
+            target: build.target
+        };
+    } else if (raw.image) {
+        config.image = substitute(raw.image);
+    } else {
+        throw new Error('devcontainer.json must define image, build or dockerComposeFile');
+    }
+
+    return config;
+}
+
+function substituteVariables(value: string, workspaceRoot: string, containerWorkspaceFolder: string): string {
+    return value.replace(/\$\{([^}]+)\}/g, (match, variable: string) => {
+        if (variable === 'localWorkspaceFolder') {
+            return workspaceRoot;
+        }
+        if (variable === 'localWorkspaceFolderBasename') {
+            return path.basename(workspaceRoot);
+        }
+        if (variable === 'containerWorkspaceFolder') {
+            return containerWorkspaceFolder;
+        }
+        if (variable === 'containerWorkspaceFolderBasename') {
+            return path.posix.basename(containerWorkspaceFolder);
+        }
+        if (variable.startsWith('localEnv:')) {
+            const [name, defaultValue] = variable.slice('localEnv:'.length).split(':');
+            return process.env[name] ?? defaultValue ?? '';
+        }
+        return match;
+    });
+}
+
+// Mounts are either "source=...,target=...,type=bind" strings or objects, as in
+// devcontainer.json and the jupyterDocker.mounts setting
+export function parseMount(mount: string | { [key: string]: unknown }, substitute: (value: string) => string): Docker.MountSettings {
+    const fields: { [key: string]: string } = {};
+    if (typeof mount === 'string') {
+        for (const part of mount.split(',')) {
+            const [key, ...rest] = part.split('=');
+            fields[key.trim().toLowerCase()] = rest.join('=').trim();
+        }
+    } else {
+        for (const [key, value] of Object.entries(mount)) {
+            fields[key.toLowerCase()] = String(value);
+        }
+    }
+
+    const target = fields.target || fields.dst || fields.destination;
+    if (!target) {
+        throw new Error(`Mount is missing a target: ${JSON.stringify(mount)}`);
+    }
+
+    return {
+        Type: (fields.type || 'bind') as Docker.MountType,
+        Source: substitute(fields.source || fields.src || ''),
+        Target: substitute(target),
+        ReadOnly: fields.readonly === 'true' || fields.readonly === '' || fields.ro === 'true'
+    };
+}
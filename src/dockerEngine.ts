@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import Docker from 'dockerode';
+import { getDockerConfigDir } from './registryAuth';
+
+// Host names that reach an engine on this machine, so bind mounts see local files
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+// Connection options for dockerode; docker-modem also reads sshOptions
+type EngineOptions = Docker.DockerOptions & { sshOptions?: { agent?: string } };
+
+export interface DockerEngine {
+    options: EngineOptions;
+    // Where the endpoint came from; "default" means nothing was configured
+    source: 'setting' | 'context' | 'environment' | 'default';
+    // Endpoint shown to the user, e.g. "ssh://builder@buildbox (context buildbox)"
+    description: string;
+    // True when the engine runs on another machine and cannot bind-mount local paths
+    remote: boolean;
+    // Environment for Docker CLI child processes (docker compose) so they talk to the same engine
+    cliEnv: NodeJS.ProcessEnv;
+}
+
+interface EngineEndpoint {
+    host: string;
+    tlsCertPath?: string;
+    tlsVerify: boolean;
+}
+
+// Resolves the engine the same way the Docker CLI does: an explicit endpoint wins,
+// then a named context, then DOCKER_HOST, then DOCKER_CONTEXT, then the CLI's
+// current context, and finally the local socket
+export function resolveDockerEngine(config: vscode.WorkspaceConfiguration): DockerEngine {
+    const configuredHost = config.get<string>('dockerHost', '').trim();
+    if (configuredHost) {
+        const tlsCertPath = config.get<string>('tlsCertPath', '').trim() || process.env.DOCKER_CERT_PATH;
+        const tlsVerify = config.get<boolean>('tlsVerify', false);
+        return toEngine({ host: configuredHost, tlsCertPath, tlsVerify }, 'setting', configuredHost, {
+            DOCKER_HOST: configuredHost,
+            DOCKER_CONTEXT: undefined,
+            DOCKER_CERT_PATH: tlsCertPath,
+            DOCKER_TLS_VERIFY: tlsVerify ? '1' : undefined
+        });
+    }
+
+    const configuredContext = config.get<string>('dockerContext', '').trim();
+    if (configuredContext) {
+        return fromContext(configuredContext);
+    }
+
+    if (process.env.DOCKER_HOST) {
+        return toEngine({
+            host: process.env.DOCKER_HOST,
+            tlsCertPath: process.env.DOCKER_CERT_PATH,
+            tlsVerify: process.env.DOCKER_TLS_VERIFY === '1'
+        }, 'environment', `${process.env.DOCKER_HOST} (DOCKER_HOST)`, {});
+    }
+
+    const currentContext = process.env.DOCKER_CONTEXT || readCurrentContext();
+    if (currentContext) {
+        return fromContext(currentContext);
+    }
+
+    return localEngine();
+}
+
+function fromContext(name: string): DockerEngine {
+    if (name === 'default') {
+        return { ...localEngine({ DOCKER_CONTEXT: 'default' }), source: 'context' };
+    }
+
+    // The CLI stores each context under the SHA-256 of its name
+    const id = crypto.createHash('sha256').update(name).digest('hex');
+    const metaPath = path.join(getDockerConfigDir(), 'contexts', 'meta', id, 'meta.json');
+    if (!fs.existsSync(metaPath)) {
+        throw new Error(`Docker context "${name}" not found (run "docker context ls")`);
+    }
+
+    const meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    const endpoint = meta.Endpoints?.docker;
+    if (!endpoint?.Host) {
+        throw new Error(`Docker context "${name}" has no Docker endpoint`);
+    }
+
+    const tlsDir = path.join(getDockerConfigDir(), 'contexts', 'tls', id, 'docker');
+    return toEngine({
+        host: endpoint.Host,
+        tlsCertPath: fs.existsSync(tlsDir) ? tlsDir : undefined,
+        tlsVerify: endpoint.SkipTLSVerify === false
+    }, 'context', `${endpoint.Host} (context ${name})`, { DOCKER_HOST: undefined, DOCKER_CONTEXT: name });
+}
+
+function readCurrentContext(): string | undefined {
+    const configPath = path.join(getDockerConfigDir(), 'config.json');
+    try {
+        return JSON.parse(fs.readFileSync(configPath, 'utf-8')).currentContext || undefined;
+    } catch (error) {
+        return undefined;
+    }
+}
+
+function localEngine(cliEnv: NodeJS.ProcessEnv = {}): DockerEngine {
+    // Empty options let docker-modem pick the platform's default socket
+    return { options: {}, source: 'default', description: 'local Docker engine', remote: false, cliEnv: { ...process.env, ...cliEnv } };
+}
+
+// Sockets the Docker daemon and Docker Desktop listen on by default
+export function hasLocalDockerSocket(): boolean {
+    if (process.platform === 'win32') {
+        return true;
+    }
+    return ['/var/run/docker.sock', path.join(os.homedir(), '.docker', 'run', 'docker.sock')].some((socket) => fs.existsSync(socket));
+}
+
+// Podman's Docker-compatible API socket: CONTAINER_HOST, then the rootless user
+// socket, then the system socket
+export function findPodmanEngine(): DockerEngine | undefined {
+    const runtimeDir = process.env.XDG_RUNTIME_DIR || (process.getuid ? `/run/user/${process.getuid()}` : undefined);
+    const candidates = [
+        process.env.CONTAINER_HOST?.startsWith('unix://') ? process.env.CONTAINER_HOST.slice('unix://'.length) : undefined,
+        runtimeDir ? path.join(runtimeDir, 'podman', 'podman.sock') : undefined,
+        '/run/podman/podman.sock'
+    ];
+
+    const socketPath = candidates.find((candidate) => candidate && fs.existsSync(candidate));
+    if (!socketPath) {
+        return undefined;
+    }
+    return {
+        options: { socketPath, host: undefined },
+        source: 'default',
+        description: `Podman (${socketPath})`,
+        remote: false,
+        // docker compose talks to Podman through the same socket
+        cliEnv: { ...process.env, DOCKER_HOST: `unix://${socketPath}` }
+    };
+}
+
+function toEngine(endpoint: EngineEndpoint, source: DockerEngine['source'], description: string, cliEnv: NodeJS.ProcessEnv): DockerEngine {
+    const env = { ...process.env, ...cliEnv };
+
+    // Every option is set explicitly so DOCKER_HOST from the environment can't leak in
+    if (endpoint.host.startsWith('unix://')) {
+        return {
+            options: { socketPath: endpoint.host.slice('unix://'.length) || '/var/run/docker.sock', host: undefined },
+            source,
+            description,
+            remote: false,
+            cliEnv: env
+        };
+    }
+    if (endpoint.host.startsWith('npipe://')) {
+        return {
+            options: { socketPath: endpoint.host.slice('npipe://'.length) || '//./pipe/docker_engine', host: undefined },
+            source,
+            description,
+            remote: false,
+            cliEnv: env
+        };
+    }
+
+    let url: URL;
+    try {
+        url = new URL(endpoint.host.includes('//') ? endpoint.host : `tcp://${endpoint.host}`);
+    } catch (error) {
+        throw new Error(`Invalid Docker endpoint "${endpoint.host}": expected unix://, npipe://, tcp:// or ssh://`);
+    }
+
+    if (url.protocol === 'ssh:') {
+        // Runs "docker system dial-stdio" on the remote host through the SSH agent
+        return {
+            options: {
+                protocol: 'ssh',
+                host: url.hostname,
+                port: url.port || 22,
+                username: url.username || undefined,
+                sshOptions: { agent: process.env.SSH_AUTH_SOCK }
+            },
+            source,
+            description,
+            remote: true,
+            cliEnv: env
+        };
+    }
+
+    if (url.protocol !== 'tcp:' && url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Unsupported Docker endpoint "${endpoint.host}"`);
+    }
+
+    const useTls = endpoint.tlsVerify || !!endpoint.tlsCertPath || url.port === '2376' || url.protocol === 'https:';
+    const options: EngineOptions = {
+        protocol: useTls ? 'https' : 'http',
+        host: url.hostname,
+        port: url.port || (useTls ? 2376 : 2375)
+    };
+    if (useTls && endpoint.tlsCertPath) {
+        options.ca = readCertificate(endpoint.tlsCertPath, 'ca.pem');
+        options.cert = readCertificate(endpoint.tlsCertPath, 'cert.pem');
+        options.key = readCertificate(endpoint.tlsCertPath, 'key.pem');
+    }
+
+    return { options, source, description, remote: !LOCAL_HOSTS.includes(url.hostname), cliEnv: env };
+}
+
+function readCertificate(certPath: string, file: string): Buffer {
+    const fullPath = path.join(certPath, file);
+    if (!fs.existsSync(fullPath)) {
+        throw new Error(`TLS certificate not found: ${fullPath}`);
+    }
+    return fs.readFileSync(fullPath);
+}
@@ -2,116 +2,472 @@ import * as vscode from 'vscode';
 import Docker, { ContainerInfo } from 'dockerode';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as crypto from 'crypto';
 import * as tar from 'tar-stream';
+import { pipeline } from 'stream/promises';
+import { KERNEL_BRIDGE_PATH, KERNEL_BRIDGE_SCRIPT } from './kernelBridge';
+import { BuildContext, collectBuildContext, hashBuildContext, packBuildContext, packDirectory } from './buildContext';
+import { DevcontainerConfig, loadDevcontainerConfig, parseMount } from './devcontainer';
+import { ComposeProject } from './compose';
+import { getRegistryAuth } from './registryAuth';
+import { DockerEngine } from './dockerEngine';
+import { BindMount, ContainerRuntime, ContainerSpec, ContainerStats, ExecProcess, ExecResult, RuntimeKind, createContainerRuntime, selectEngine } from './containerRuntime';
+import { resolveEnvironment } from './environment';
+import { SecretStore } from './secrets';
+
+// Image label recording the hash of the Dockerfile, build context and build options
+export const CONTENT_HASH_LABEL = 'jupyter-docker.content-hash';
+
+// Labels identifying containers created by the extension and the runtime they serve
+export const MANAGED_LABEL = 'jupyter-docker.managed';
+export const RUNTIME_LABEL = 'jupyter-docker.runtime';
+export const WORKSPACE_LABEL = 'jupyter-docker.workspace';
+
+// Container label recording the hash of the settings it was created with
+const CONFIG_LABEL = 'jupyter-docker.config';
+
+// Image labels of snapshots: the message they were created with, and when
+export const SNAPSHOT_LABEL = 'jupyter-docker.snapshot';
+export const SNAPSHOT_CREATED_LABEL = 'jupyter-docker.snapshot-created';
+
+// Settings that pick the engine; changing them connects the runtime to another engine
+const ENGINE_SETTINGS = ['containerRuntime', 'dockerHost', 'dockerContext', 'tlsCertPath', 'tlsVerify'];
+
+// HOME for the host user, who usually has no home directory in the image. /tmp is
+// writable by every user, so pip --user and the kernelspec install work
+const CONTAINER_HOME = '/tmp/jupyter-home';
+
+// Workspace state key remembering the compose service picked for notebooks
+const COMPOSE_SERVICE_STATE_KEY = 'jupyterDocker.composeService';
+// Workspace state key holding the compose container that already ran postCreateCommand
+const POST_CREATE_STATE_KEY = 'jupyterDocker.postCreateContainer';
+// Workspace state key holding the id of a container attached to with "Attach to Running Container"
+const ATTACHED_CONTAINER_STATE_KEY = 'jupyterDocker.attachedContainer';
+// Workspace state key holding the snapshot image the runtime's container is created from
+const ACTIVE_SNAPSHOT_STATE_KEY = 'jupyterDocker.activeSnapshot';
+
+export type RuntimeSource = 'dockerfile' | 'devcontainer' | 'compose';
+
+// How the workspace reaches a container on a remote engine
+export type RemoteWorkspaceMode = 'sync' | 'bind';
+
+// What happens to the runtime container when notebooks close, go idle or VS Code exits
+export type LifecyclePolicy = 'keepRunning' | 'stopOnLastClose' | 'stopWhenIdle' | 'removeOnExit';
+
+export interface RuntimeScope {
+    // Stable identity of the runtime, used for names, labels and state keys
+    key: string;
+    // Host directory mounted as the container's workspace
+    root: string;
+    folder?: vscode.WorkspaceFolder;
+    // Set when a single notebook runs in its own container
+    notebookUri?: vscode.Uri;
+}
+
+interface MountSpec {
+    binds: BindMount[];
+    mounts: Docker.MountSettings[];
+}
+
+interface ResourceLimits {
+    memory?: number;
+    memorySwap?: number;
+    cpus?: number;
+    shmSize?: number;
+    ulimits?: { Name: string; Soft: number; Hard: number }[];
+}
+
+interface SandboxOptions {
+    readOnlyWorkspace: boolean;
+    network: string;
+    dropCapabilities: boolean;
+    noNewPrivileges: boolean;
+    pidsLimit: number;
+}
+
+// A Jupyter kernelspec installed in the container
+export interface KernelSpecInfo {
+    name: string;
+    displayName: string;
+    // As written in kernel.json, e.g. "python", "R", "julia"
+    language: string;
+}
+
+// Registered by setupKernel in every managed container
+export const DEFAULT_KERNELSPEC: KernelSpecInfo = { name: 'docker-python', displayName: 'Python (Docker)', language: 'python' };
+
+export type ProgressReporter = vscode.Progress<{ message?: string; increment?: number }>;
+
+interface ComposeTarget {
+    project: ComposeProject;
+    service: string;
+    // Services passed to `compose up`; empty starts the whole project
+    services: string[];
+}
 
 export class DockerManager {
-    private docker: Docker;
-    private container: Docker.Container | undefined;
+    private runtime: ContainerRuntime | undefined;
+    private engine: DockerEngine | undefined;
+    private runtimeKind: RuntimeKind | undefined;
+    private engineError: Error | undefined;
+    private warnedAboutRemoteMounts = false;
+    // Name or id of the container notebooks run in
+    private containerId: string | undefined;
     private config: vscode.WorkspaceConfiguration;
     private workspaceRoot: string;
+    private dismissedContentHash: string | undefined;
+    private dismissedConfigHash: string | undefined;
+    private secrets: SecretStore;
 
-    constructor(private context: vscode.ExtensionContext) {
-        this.docker = new Docker();
-        this.config = vscode.workspace.getConfiguration('jupyterDocker');
-        
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            throw new Error('No workspace folder open');
+    constructor(
+        private context: vscode.ExtensionContext,
+        readonly scope: RuntimeScope
+    ) {
+        // Resource-scoped so each folder of a multi-root workspace can configure its own runtime
+        this.config = vscode.workspace.getConfiguration('jupyterDocker', this.getConfigScope());
+        this.workspaceRoot = scope.root;
+        this.secrets = new SecretStore(context);
+        this.selectEngine();
+    }
+
+    // Re-reads the settings after a change; returns whether this runtime's changed.
+    // The container picks up most of them only when it is recreated (see checkConfigDrift)
+    reloadConfiguration(event: vscode.ConfigurationChangeEvent): boolean {
+        const configScope = this.getConfigScope();
+        if (!event.affectsConfiguration('jupyterDocker', configScope)) {
+            return false;
+        }
+        this.config = vscode.workspace.getConfiguration('jupyterDocker', configScope);
+
+        if (ENGINE_SETTINGS.some((setting) => event.affectsConfiguration(`jupyterDocker.${setting}`, configScope))) {
+            // Kernels already running keep their connection to the old engine
+            this.runtime = undefined;
+            this.containerId = undefined;
+            this.warnedAboutRemoteMounts = false;
+            this.selectEngine();
+        }
+        return true;
+    }
+
+    private selectEngine(): void {
+        try {
+            const { engine, kind } = selectEngine(this.config);
+            this.engine = engine;
+            this.runtimeKind = kind;
+            this.engineError = undefined;
+        } catch (error) {
+            // Reported when the runtime is first used rather than failing activation
+            this.engine = undefined;
+            this.engineError = error instanceof Error ? error : new Error(String(error));
         }
-        this.workspaceRoot = workspaceFolder.uri.fsPath;
+    }
+
+    private getConfigScope(): vscode.Uri | undefined {
+        return this.scope.notebookUri ?? this.scope.folder?.uri;
     }
 
     async isContainerRunning(): Promise<boolean> {
         try {
+            const runtime = await this.getRuntime();
+            const attachedId = this.getAttachedContainerId();
+            if (attachedId) {
+                const info = await runtime.inspectContainer(attachedId);
+                if (info?.State.Running) {
+                    this.containerId = attachedId;
+                }
+                return !!info?.State.Running;
+            }
+
+            if (this.getRuntimeSource() === 'compose' || this.getDevcontainerConfig()?.compose) {
+                const target = await this.getComposeTarget(false);
+                const id = target ? await target.project.containerId(target.service) : undefined;
+                if (id) {
+                    this.containerId = id;
+                }
+                return !!id;
+            }
+
             const containerName = this.getContainerName();
-            const containers = await this.docker.listContainers();
-            return containers.some((c: ContainerInfo) => c.Names.includes(`/${containerName}`));
+            const containers = await runtime.listContainers();
+            const running = containers.some((c: ContainerInfo) => c.Names.includes(`/${containerName}`));
+            if (running && !this.containerId) {
+                // Container was started by an earlier session of the extension
+                this.containerId = containerName;
+            }
+            return running;
         } catch (error) {
             return false;
         }
     }
 
-    async ensureContainer(): Promise<void> {
+    async ensureContainer(progress?: ProgressReporter): Promise<void> {
+        const runtime = await this.getRuntime();
+
+        const attachedId = this.getAttachedContainerId();
+        if (attachedId) {
+            await this.useAttachedContainer(attachedId);
+            return;
+        }
+
+        const compose = await this.getComposeTarget(true);
+        if (compose) {
+            await this.ensureComposeContainer(compose);
+            return;
+        }
+
         const containerName = this.getContainerName();
         
         // Check if container already exists
-        try {
-            this.container = this.docker.getContainer(containerName);
-            const info = await this.container.inspect();
-            
-            if (info.State.Running) {
-                console.log('Container already running');
+        const info = await runtime.inspectContainer(containerName);
+        if (info) {
+            this.containerId = containerName;
+        }
+
+        let forceBuild = false;
+        if (info) {
+            const outdatedImage = this.usesBuiltImage() && await this.shouldRebuildImage(info.Image);
+            const outdatedConfig = !outdatedImage && await this.shouldRecreateForConfig(info);
+            if (!outdatedImage && !outdatedConfig) {
+                if (info.State.Running) {
+                    console.log('Container already running');
+                    return;
+                }
+
+                // Start existing container
+                await runtime.startContainer(containerName);
+                console.log('Started existing container');
+                if (this.syncsWorkspace()) {
+                    // Pick up local edits made while the container was stopped
+                    progress?.report({ message: 'Copying workspace to the remote engine...' });
+                    await this.syncWorkspace();
+                }
                 return;
             }
-            
-            // Start existing container
-            await this.container.start();
-            console.log('Started existing container');
-            return;
-        } catch (error) {
-            // Container doesn't exist, continue to create it
+
+            // The container runs an outdated image or settings; replace it (and the image)
+            forceBuild = outdatedImage;
+            await this.stopContainer();
         }
 
-        // Build image if needed
-        await this.buildImage();
+        // Build or pull image if needed; snapshots only exist locally
+        const devcontainer = this.getDevcontainerConfig();
+        const snapshot = this.getActiveSnapshot();
+        const prebuiltImage = this.getPrebuiltImage();
+        if (snapshot) {
+            if (!(await runtime.inspectImage(snapshot))) {
+                throw new Error(`Snapshot ${snapshot} no longer exists. Run "Jupyter Docker: Start from Snapshot" to pick another one or go back to the runtime image`);
+            }
+        } else if (prebuiltImage) {
+            await this.pullImage(prebuiltImage, progress);
+        } else {
+            await this.buildImage(forceBuild, progress);
+        }
 
         // Create and start container
-        await this.createContainer();
+        await this.createContainer(devcontainer);
+        if (this.syncsWorkspace()) {
+            progress?.report({ message: 'Copying workspace to the remote engine...' });
+            await this.syncWorkspace();
+        }
+
+        if (devcontainer?.postCreateCommand) {
+            await this.runPostCreateCommand(devcontainer.postCreateCommand);
+        }
     }
 
-    private async buildImage(): Promise<void> {
-        const imageName = this.getImageName();
-        const dockerfilePath = path.join(
-            this.workspaceRoot,
-            this.config.get('dockerfilePath', 'Dockerfile')
-        );
+    // Attached containers are used as they are: never started, stopped or removed
+    private async useAttachedContainer(containerId: string): Promise<void> {
+        const info = await (await this.getRuntime()).inspectContainer(containerId);
+        if (!info) {
+            throw new Error('The attached container no longer exists. Run "Jupyter Docker: Detach from Container" to go back to the managed runtime');
+        }
+        if (!info.State.Running) {
+            throw new Error(`Attached container ${info.Name.replace(/^\//, '')} is not running. Start it, or detach to go back to the managed runtime`);
+        }
+        this.containerId = containerId;
+    }
 
-        // Check if Dockerfile exists
-        if (!fs.existsSync(dockerfilePath)) {
-            // Create a default Dockerfile
-            await this.createDefaultDockerfile(dockerfilePath);
+    getAttachedContainerId(): string | undefined {
+        return this.context.workspaceState.get<string>(this.stateKey(ATTACHED_CONTAINER_STATE_KEY));
+    }
+
+    async listRunningContainers(): Promise<ContainerInfo[]> {
+        return (await this.getRuntime()).listContainers();
+    }
+
+    async attachToContainer(containerId: string): Promise<void> {
+        const info = await (await this.getRuntime()).inspectContainer(containerId);
+        if (!info) {
+            throw new Error(`Container ${containerId.slice(0, 12)} not found`);
+        }
+        if (!info.State.Running) {
+            throw new Error(`Container ${info.Name.replace(/^\//, '')} is not running`);
+        }
+
+        this.containerId = info.Id;
+        await this.context.workspaceState.update(this.stateKey(ATTACHED_CONTAINER_STATE_KEY), info.Id);
+        await this.setupKernel();
+    }
+
+    async detachFromContainer(): Promise<void> {
+        await this.context.workspaceState.update(this.stateKey(ATTACHED_CONTAINER_STATE_KEY), undefined);
+        this.containerId = undefined;
+    }
+
+    private async ensureComposeContainer(target: ComposeTarget, build = false): Promise<void> {
+        // Compose brings up the service together with its dependencies (databases etc.)
+        if (this.engine?.remote) {
+            this.warnAboutRemoteMounts('Bind mounts in the compose file');
+        }
+        console.log(`Starting compose service ${target.service}...`);
+        await target.project.up(target.services, build);
+
+        const id = await target.project.containerId(target.service);
+        if (!id) {
+            throw new Error(`Compose service "${target.service}" has no running container`);
+        }
+        this.containerId = id;
+
+        // Compose may reuse an existing container, so run postCreateCommand once per container
+        const postCreateCommand = this.getDevcontainerConfig()?.postCreateCommand;
+        if (postCreateCommand && this.context.workspaceState.get(this.stateKey(POST_CREATE_STATE_KEY)) !== id) {
+            await this.runPostCreateCommand(postCreateCommand);
+            await this.context.workspaceState.update(this.stateKey(POST_CREATE_STATE_KEY), id);
+        }
+    }
+
+    private async getComposeTarget(pickService: boolean): Promise<ComposeTarget | undefined> {
+        const devcontainer = this.getDevcontainerConfig();
+        if (devcontainer?.compose) {
+            const { files, service, runServices } = devcontainer.compose;
+            return {
+                project: new ComposeProject(files, this.engine?.cliEnv),
+                service,
+                services: runServices ? Array.from(new Set([...runServices, service])) : []
+            };
+        }
+
+        if (this.getRuntimeSource() !== 'compose') {
+            return undefined;
+        }
+
+        const project = new ComposeProject([
+            path.join(this.workspaceRoot, this.config.get('composeFile', 'docker-compose.yml'))
+        ], this.engine?.cliEnv);
+        let service = this.config.get<string>('composeService', '') ||
+            this.context.workspaceState.get<string>(this.stateKey(COMPOSE_SERVICE_STATE_KEY));
+
+        if (!service && pickService) {
+            service = await vscode.window.showQuickPick(await project.listServices(), {
+                placeHolder: 'Select the compose service to run notebooks in'
+            });
+            if (!service) {
+                throw new Error('No compose service selected');
+            }
+            await this.context.workspaceState.update(this.stateKey(COMPOSE_SERVICE_STATE_KEY), service);
         }
 
+        return service ? { project, service, services: [service] } : undefined;
+    }
+
+    private async pullImage(image: string, progress?: ProgressReporter): Promise<void> {
+        const runtime = await this.getRuntime();
+        if (await runtime.inspectImage(image)) {
+            return;
+        }
+
+        console.log(`Pulling ${image}...`);
+        progress?.report({ message: `Pulling ${image}...` });
+
+        const auth = await getRegistryAuth(image);
+
+        // Track download progress per layer and report the overall percentage
+        const layers = new Map<string, { current: number; total: number; done: boolean }>();
+        let reportedPercent = 0;
+        await runtime.pullImage(image, auth, (event) => {
+            if (!event.id || !event.status) {
+                return;
+            }
+
+            const layer = layers.get(event.id) || { current: 0, total: 0, done: false };
+            if (event.status === 'Downloading' && event.progressDetail?.total) {
+                layer.current = event.progressDetail.current ?? 0;
+                layer.total = event.progressDetail.total;
+            } else if (event.status === 'Download complete' || event.status === 'Pull complete' ||
+                event.status === 'Already exists') {
+                layer.current = layer.total;
+                layer.done = true;
+            }
+            layers.set(event.id, layer);
+
+            const all = Array.from(layers.values());
+            const current = all.reduce((sum, l) => sum + l.current, 0);
+            const total = all.reduce((sum, l) => sum + l.total, 0);
+            const percent = total > 0 ? Math.floor((current / total) * 100) : 0;
+            const done = all.filter((l) => l.done).length;
+
+            progress?.report({
+                message: `Pulling ${image}: ${done}/${all.length} layers, ${formatBytes(current)} of ${formatBytes(total)}`,
+                increment: Math.max(0, percent - reportedPercent)
+            });
+            reportedPercent = Math.max(reportedPercent, percent);
+        }).catch((error: Error) => {
+            throw new Error(`Failed to pull ${image}: ${error.message}`);
+        });
+        console.log(`Pulled ${image}`);
+    }
+
+    private async runPostCreateCommand(command: NonNullable<DevcontainerConfig['postCreateCommand']>): Promise<void> {
+        // Strings run through a shell, arrays run directly, and the object form runs its commands in parallel
+        const commands = typeof command === 'object' && !Array.isArray(command)
+            ? Object.values(command)
+            : [command];
+
+        await Promise.all(commands.map((cmd) => this.execInContainerOrThrow(
+            Array.isArray(cmd) ? cmd : ['/bin/sh', '-c', cmd],
+            'postCreateCommand'
+        )));
+    }
+
+    private async buildImage(force = false, progress?: ProgressReporter): Promise<void> {
+        const imageName = this.getImageName();
+        const { context, contentHash } = await this.prepareBuildContext();
+
         // Check if image already exists
-        try {
-            await this.docker.getImage(imageName).inspect();
+        const runtime = await this.getRuntime();
+        const exists = !!(await runtime.inspectImage(imageName));
+        if (exists && !force && !(await this.shouldRebuildImage(imageName, contentHash))) {
             console.log('Image already exists');
             return;
-        } catch (error) {
-            // Image doesn't exist, build it
         }
 
         // Build the image
-        console.log('Building Docker image...');
-        const pack = tar.pack();
-        
-        // Add Dockerfile to tar stream
-        const dockerfileContent = fs.readFileSync(dockerfilePath, 'utf-8');
-        pack.entry({ name: 'Dockerfile' }, dockerfileContent, (err: Error | null | undefined) => {
-            if (err) console.error('Error adding Dockerfile to tar:', err);
-            pack.finalize();
-        });
+        console.log(`Building Docker image from ${context.files.length} context files...`);
+        const buildOptions = this.getBuildOptions();
 
         try {
-            const stream = await this.docker.buildImage(pack, { t: imageName });
-            
-            await new Promise<void>((resolve, reject) => {
-                stream.on('data', (chunk: any) => {
-                    const str = chunk.toString();
-                    if (str.includes('error')) {
-                        console.error(str);
-                    } else {
-                        console.log(str);
+            await runtime.buildImage(packBuildContext(context), {
+                tag: imageName,
+                dockerfile: context.dockerfileEntry,
+                labels: {
+                    [CONTENT_HASH_LABEL]: contentHash,
+                    [MANAGED_LABEL]: 'true',
+                    [RUNTIME_LABEL]: this.scope.key
+                },
+                buildArgs: buildOptions.buildArgs,
+                target: buildOptions.target,
+                platform: buildOptions.platform
+            }, (event) => {
+                if (event.stream) {
+                    const line = event.stream.trimEnd();
+                    console.log(line);
+                    if (/^Step \d+\/\d+/.test(line)) {
+                        progress?.report({ message: line });
                     }
-                });
-                
-                stream.on('end', () => {
-                    resolve();
-                });
-                
-                stream.on('error', (err: Error) => {
-                    reject(err);
-                });
+                }
+            }).catch((error: Error) => {
+                throw new Error(`Image build failed: ${error.message}`);
             });
 
             console.log('Image built successfully');
@@ -121,201 +477,516 @@ export class DockerManager {
         }
     }
 
-    private async createContainer(): Promise<void> {
-        const containerName = this.getContainerName();
-        const imageName = this.getImageName();
+    private async prepareBuildContext(): Promise<{ context: BuildContext; contentHash: string }> {
+        const dockerfilePath = this.getDockerfilePath();
+
+        // Check if Dockerfile exists
+        if (!fs.existsSync(dockerfilePath) && this.getDevcontainerConfig()) {
+            throw new Error(`Dockerfile referenced by devcontainer.json not found: ${dockerfilePath}`);
+        }
+        if (!fs.existsSync(dockerfilePath)) {
+            // Create a default Dockerfile
+            await this.createDefaultDockerfile(dockerfilePath);
+        }
 
-        this.container = await this.docker.createContainer({
-            Image: imageName,
-            name: containerName,
-            Tty: true,
-            OpenStdin: true,
-            WorkingDir: '/workspace',
-            HostConfig: {
-                Binds: [`${this.workspaceRoot}:/workspace`],
-                AutoRemove: false
-            },
-            Cmd: ['tail', '-f', '/dev/null'] // Keep container running
+        const context = collectBuildContext(this.getBuildContextDir(), dockerfilePath);
+        return { context, contentHash: await hashBuildContext(context, this.getBuildOptions()) };
+    }
+
+    // Compares the content hash label of an image with the current Dockerfile and
+    // build context, and asks whether to rebuild when they differ
+    private async shouldRebuildImage(imageRef: string, contentHash?: string): Promise<boolean> {
+        const image = await (await this.getRuntime()).inspectImage(imageRef);
+        if (!image) {
+            return false;
+        }
+        const labels: { [label: string]: string } = image.Config?.Labels || {};
+
+        const currentHash = contentHash ?? (await this.prepareBuildContext()).contentHash;
+        if (labels[CONTENT_HASH_LABEL] === currentHash || this.dismissedContentHash === currentHash) {
+            return false;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            'The Dockerfile or build context changed since the runtime image was built. Rebuild it?',
+            'Rebuild',
+            'Keep Current Image'
+        );
+        if (choice !== 'Rebuild') {
+            // Don't ask again until the inputs change once more
+            this.dismissedContentHash = currentHash;
+            return false;
+        }
+        return true;
+    }
+
+    // Asks to recreate a running container whose settings changed, e.g. right after the
+    // user edited them. True when the caller should recreate it
+    async checkConfigDrift(): Promise<boolean> {
+        if (this.getAttachedContainerId() || this.getRuntimeSource() === 'compose' || this.getDevcontainerConfig()?.compose) {
+            return false;
+        }
+        try {
+            const info = await (await this.getRuntime()).inspectContainer(this.getContainerName());
+            return !!info?.State.Running && await this.shouldRecreateForConfig(info);
+        } catch (error) {
+            console.error('Failed to check the container settings:', error);
+            return false;
+        }
+    }
+
+    // Asks to recreate a container created with other settings, since mounts, environment,
+    // user, limits and sandbox options can't be changed on an existing container
+    private async shouldRecreateForConfig(info: Docker.ContainerInspectInfo): Promise<boolean> {
+        const createdWith = info.Config.Labels?.[CONFIG_LABEL];
+        // Containers created before settings were labelled are left alone
+        if (!createdWith) {
+            return false;
+        }
+        let current: string;
+        try {
+            current = hashContainerSpec(this.getContainerSpec(this.getDevcontainerConfig()));
+        } catch (error) {
+            // Invalid settings are reported when a container is created with them
+            console.error('Failed to resolve the container settings:', error);
+            return false;
+        }
+        if (createdWith === current || this.dismissedConfigHash === current) {
+            return false;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            'The runtime settings changed since the container was created. Recreate it to apply them? Running kernels restart, and files written outside the workspace and volumes are lost.',
+            'Recreate',
+            'Keep Current Container'
+        );
+        if (choice !== 'Recreate') {
+            this.dismissedConfigHash = current;
+            return false;
+        }
+        return true;
+    }
+
+    private async createContainer(devcontainer?: DevcontainerConfig): Promise<void> {
+        const spec = this.getContainerSpec(devcontainer);
+        if (this.engine?.remote && !this.syncsWorkspace()) {
+            this.warnAboutRemoteMounts(`The workspace bind mount (${this.workspaceRoot})`);
+        }
+        if (this.engine?.remote && spec.mounts.some((mount) => mount.Type === 'bind')) {
+            this.warnAboutRemoteMounts('Bind mounts from devcontainer.json or jupyterDocker.mounts');
+        }
+
+        const runtime = await this.getRuntime();
+        this.containerId = await runtime.createContainer({
+            ...spec,
+            labels: {
+                [MANAGED_LABEL]: 'true',
+                [RUNTIME_LABEL]: this.scope.key,
+                [WORKSPACE_LABEL]: this.workspaceRoot,
+                [CONFIG_LABEL]: hashContainerSpec(spec)
+            }
         });
 
-        await this.container.start();
+        await runtime.startContainer(this.containerId);
+        const hostUser = devcontainer?.containerUser ? undefined : this.getHostUser();
+        if (hostUser) {
+            await runtime.exec(this.containerId, ['mkdir', '-p', CONTAINER_HOME], hostUser);
+            await this.chownCacheVolumes(hostUser);
+        }
         console.log('Container created and started');
     }
 
+    // Everything the container is created with except its labels
+    private getContainerSpec(devcontainer?: DevcontainerConfig): ContainerSpec {
+        const workspaceFolder = devcontainer?.workspaceFolder ?? '/workspace';
+        const { binds, mounts } = this.getMounts(devcontainer);
+
+        // Run as the host user so files written to the workspace aren't root-owned,
+        // unless devcontainer.json names a user
+        const hostUser = devcontainer?.containerUser ? undefined : this.getHostUser();
+        const env = Object.entries({
+            ...devcontainer?.containerEnv,
+            ...(hostUser ? { HOME: CONTAINER_HOME, USER: os.userInfo().username } : {}),
+            ...resolveEnvironment(this.config, this.workspaceRoot, workspaceFolder)
+        }).map(([name, value]) => `${name}=${value}`);
+
+        const sandbox = this.getSandboxOptions();
+        return {
+            name: this.getContainerName(),
+            image: this.getImageName(),
+            labels: {},
+            workingDir: workspaceFolder,
+            user: devcontainer?.containerUser ?? hostUser,
+            env,
+            binds,
+            mounts,
+            cmd: ['tail', '-f', '/dev/null'], // Keep container running
+            networkMode: sandbox.network || undefined,
+            capDrop: sandbox.dropCapabilities ? ['ALL'] : undefined,
+            securityOpt: sandbox.noNewPrivileges ? ['no-new-privileges'] : undefined,
+            pidsLimit: sandbox.pidsLimit > 0 ? sandbox.pidsLimit : undefined,
+            ...this.getResourceLimits()
+        };
+    }
+
+    // The engine creates volume mount points (and missing parents such as ~/.cache)
+    // owned by root; hand them to the host user so caches are writable
+    private async chownCacheVolumes(hostUser: string): Promise<void> {
+        const targets = this.getCacheVolumes(CONTAINER_HOME).map((mount) => mount.Target);
+        if (!this.containerId || targets.length === 0) {
+            return;
+        }
+
+        const paths = new Set<string>([CONTAINER_HOME]);
+        for (const target of targets) {
+            for (let dir = target; dir.startsWith(`${CONTAINER_HOME}/`); dir = path.posix.dirname(dir)) {
+                paths.add(dir);
+            }
+            paths.add(target);
+        }
+        const result = await (await this.getRuntime()).exec(this.containerId, ['chown', hostUser, ...paths], 'root');
+        if (result.exitCode !== 0) {
+            // Fails when capabilities are dropped; pip and friends then fall back to no cache
+            console.error(`Could not hand cache volumes to ${hostUser}: ${result.stderr.trim()}`);
+        }
+    }
+
+    // Copies the runtime root (minus .dockerignore entries) into the container's
+    // workspace folder. Files are only copied in, never back
+    async syncWorkspace(): Promise<number> {
+        if (!this.containerId) {
+            throw new Error('Container not initialized');
+        }
+        const workspaceFolder = this.getContainerWorkspaceFolder();
+        if (!workspaceFolder) {
+            throw new Error('This runtime does not mount the workspace');
+        }
+
+        const { pack, fileCount } = packDirectory(this.workspaceRoot);
+        await (await this.getRuntime()).putArchive(this.containerId, pack, workspaceFolder);
+        console.log(`Copied ${fileCount} workspace files to ${workspaceFolder}`);
+        return fileCount;
+    }
+
+    // Protections in effect for the running container, read back from the engine so
+    // they reflect how the container was actually created
+    async getSandboxProtections(): Promise<string[]> {
+        if (!this.containerId) {
+            return [];
+        }
+        const info = await (await this.getRuntime()).inspectContainer(this.containerId);
+        if (!info) {
+            return [];
+        }
+
+        const protections: string[] = [];
+        const workspaceFolder = this.getContainerWorkspaceFolder();
+        const workspaceMount = info.Mounts.find((mount) => mount.Destination === workspaceFolder);
+        if (workspaceMount && !workspaceMount.RW) {
+            protections.push('read-only workspace');
+        }
+        if (info.HostConfig.NetworkMode === 'none') {
+            protections.push('no network');
+        }
+        const capDrop: string[] = info.HostConfig.CapDrop || [];
+        if (capDrop.some((capability) => capability.toUpperCase() === 'ALL')) {
+            protections.push('all capabilities dropped');
+        }
+        const securityOpt: string[] = info.HostConfig.SecurityOpt || [];
+        if (securityOpt.some((option) => option === 'no-new-privileges' || option === 'no-new-privileges:true')) {
+            protections.push('no new privileges');
+        }
+        if (info.HostConfig.PidsLimit && info.HostConfig.PidsLimit > 0) {
+            protections.push(`at most ${info.HostConfig.PidsLimit} processes`);
+        }
+        return protections;
+    }
+
+    async getStats(): Promise<ContainerStats | undefined> {
+        if (!this.containerId) {
+            return undefined;
+        }
+        return (await this.getRuntime()).stats(this.containerId);
+    }
+
+    // The image the container was created from: its reference, id and, for pulled
+    // images, repo digest
+    async getContainerImage(): Promise<{ image: string; id: string; digest?: string } | undefined> {
+        if (!this.containerId) {
+            return undefined;
+        }
+        const runtime = await this.getRuntime();
+        const info = await runtime.inspectContainer(this.containerId);
+        if (!info) {
+            return undefined;
+        }
+        const image = await runtime.inspectImage(info.Image);
+        return { image: info.Config.Image, id: info.Image, digest: image?.RepoDigests?.[0] };
+    }
+
+    // Hash of the Dockerfile the runtime builds its image from; undefined for pulled images
+    getDockerfileHash(): string | undefined {
+        const dockerfilePath = this.getDockerfilePath();
+        if (!this.usesBuiltImage() || !fs.existsSync(dockerfilePath)) {
+            return undefined;
+        }
+        return crypto.createHash('sha256').update(fs.readFileSync(dockerfilePath)).digest('hex');
+    }
+
+    // The engine sets OOMKilled when the kernel or the container was killed for
+    // exceeding the memory limit; starting the container clears it again
+    async wasOomKilled(): Promise<boolean> {
+        if (!this.containerId) {
+            return false;
+        }
+        const info = await (await this.getRuntime()).inspectContainer(this.containerId);
+        return !!info?.State.OOMKilled;
+    }
+
     async setupKernel(): Promise<void> {
-        if (!this.container) {
+        if (!this.containerId) {
             throw new Error('Container not initialized');
         }
 
         // Install ipykernel if not present
-        await this.execInContainer([
-            'pip', 'install', '--quiet', 'ipykernel', 'jupyter'
-        ]);
+        const check = await this.execInContainer(['python3', '-c', 'import ipykernel, jupyter_client']);
+        if (check.exitCode !== 0) {
+            await this.execInContainerOrThrow([
+                'pip', 'install', '--quiet', 'ipykernel', 'jupyter'
+            ], 'Installing ipykernel');
+        }
 
         // Install the kernel
-        await this.execInContainer([
+        await this.execInContainerOrThrow([
             'python3', '-m', 'ipykernel', 'install',
             '--user',
-            '--name', 'docker-python',
-            '--display-name', 'Python (Docker)'
-        ]);
-
-        // Copy kernel helper script
-        await this.copyKernelHelper();
+            '--name', DEFAULT_KERNELSPEC.name,
+            '--display-name', DEFAULT_KERNELSPEC.displayName
+        ], `Installing the ${DEFAULT_KERNELSPEC.name} kernelspec`);
 
         console.log('Kernel setup complete');
     }
 
-    private async copyKernelHelper(): Promise<void> {
-        if (!this.container) {
+    private async copyKernelBridge(): Promise<void> {
+        if (!this.containerId) {
             throw new Error('Container not initialized');
         }
 
-        const helperScript = `
-import sys
-import json
-import base64
-import traceback
-from io import StringIO
-
-def execute_code(code):
-    """Execute code and capture output"""
-    old_stdout = sys.stdout
-    old_stderr = sys.stderr
-    redirected_output = StringIO()
-    redirected_error = StringIO()
-    sys.stdout = redirected_output
-    sys.stderr = redirected_error
-    
-    result = {
-        'status': 'ok',
-        'output': '',
-        'error': ''
-    }
-    
-    try:
-        exec(code, globals())
-        result['output'] = redirected_output.getvalue()
-    except Exception as e:
-        result['status'] = 'error'
-        result['error'] = traceback.format_exc()
-    finally:
-        sys.stdout = old_stdout
-        sys.stderr = old_stderr
-    
-    return result
-
-if __name__ == '__main__':
-    if len(sys.argv) > 1:
-        encoded_code = sys.argv[1]
-        code = base64.b64decode(encoded_code).decode('utf-8')
-        result = execute_code(code)
-        print(json.dumps(result))
-    else:
-        print(json.dumps({'status': 'error', 'error': 'No code provided'}))
-`;
-
-        // Create tar stream with the helper script
+        // Create tar stream with the bridge script
         const pack = tar.pack();
-        pack.entry({ name: 'kernel_helper.py' }, helperScript);
+        pack.entry({ name: path.posix.basename(KERNEL_BRIDGE_PATH) }, KERNEL_BRIDGE_SCRIPT);
         pack.finalize();
 
         // Upload to container
-        await this.container.putArchive(pack, { path: '/tmp' });
+        await (await this.getRuntime()).putArchive(this.containerId, pack, path.posix.dirname(KERNEL_BRIDGE_PATH));
     }
 
-    async execInContainer(cmd: string[]): Promise<string> {
-        if (!this.container) {
+    // Secrets go to the kernel process only, so they never reach the container config
+    async startKernelBridge(kernelName: string, secrets: { [name: string]: string }, cwd?: string): Promise<ExecProcess> {
+        if (!this.containerId) {
             throw new Error('Container not initialized');
         }
 
-        const exec = await this.container.exec({
-            Cmd: cmd,
-            AttachStdout: true,
-            AttachStderr: true
-        });
+        // Upload on every start so a container from an older version gets the current script
+        await this.copyKernelBridge();
 
-        const stream = await exec.start({ hijack: true, stdin: false });
-        
-        return new Promise((resolve, reject) => {
-            let output = '';
-            
-            stream.on('data', (chunk: Buffer) => {
-                output += chunk.toString('utf-8');
-            });
+        return (await this.getRuntime()).execInteractive(
+            this.containerId,
+            [this.getPythonPath(), '-u', KERNEL_BRIDGE_PATH, kernelName, ...(cwd ? [cwd] : [])],
+            this.getExecUser(),
+            Object.entries(secrets).map(([name, value]) => `${name}=${value}`)
+        );
+    }
 
-            stream.on('end', () => {
-                resolve(output);
-            });
+    // The workspace's secrets, as kernels get them in their environment
+    getSecrets(): Promise<{ [name: string]: string }> {
+        return this.secrets.getAll();
+    }
 
-            stream.on('error', reject);
-        });
+    // Runs the container's Python with stdin and stdout attached
+    async startPython(args: string[]): Promise<ExecProcess> {
+        if (!this.containerId) {
+            throw new Error('Container not initialized');
+        }
+        return (await this.getRuntime()).execInteractive(this.containerId, [this.getPythonPath(), ...args], this.getExecUser());
     }
 
-    async executeCode(code: string): Promise<{ status: string; output: string; error: string }> {
-        const encodedCode = Buffer.from(code).toString('base64');
-        const pythonPath = this.config.get('pythonPath', '/usr/local/bin/python3');
-        
-        const output = await this.execInContainer([
-            pythonPath,
-            '/tmp/kernel_helper.py',
-            encodedCode
-        ]);
+    // TCP ports with a listening socket in the container. /proc/net needs no tools in
+    // the image; tcp6 is missing when IPv6 is disabled, so the exit code is ignored.
+    async listListeningPorts(): Promise<number[]> {
+        const result = await this.execInContainer(['cat', '/proc/net/tcp', '/proc/net/tcp6']);
+        const ports = new Set<number>();
+        for (const line of result.stdout.split('\n')) {
+            // "  0: 00000000:1F90 00000000:0000 0A ..." where 0A is LISTEN
+            const fields = line.trim().split(/\s+/);
+            if (fields.length > 3 && fields[3] === '0A') {
+                ports.add(parseInt(fields[1].split(':')[1], 16));
+            }
+        }
+        return Array.from(ports);
+    }
 
-        // Parse JSON output
-        try {
-            // Remove Docker exec header bytes (first 8 bytes)
-            const cleanOutput = output.slice(8);
-            return JSON.parse(cleanOutput);
-        } catch (error) {
-            return {
-                status: 'error',
-                output: '',
-                error: `Failed to parse execution result: ${output}`
-            };
+    async execInContainer(cmd: string[], onOutput?: (text: string) => void): Promise<ExecResult> {
+        if (!this.containerId) {
+            throw new Error('Container not initialized');
+        }
+        return (await this.getRuntime()).exec(this.containerId, cmd, this.getExecUser(), onOutput);
+    }
+
+    // Like execInContainer, but a non-zero exit code becomes an error carrying stderr
+    async execInContainerOrThrow(cmd: string[], description: string, onOutput?: (text: string) => void): Promise<ExecResult> {
+        const result = await this.execInContainer(cmd, onOutput);
+        if (result.exitCode !== 0) {
+            const details = (result.stderr || result.stdout).trim();
+            throw new Error(`${description} failed with exit code ${result.exitCode}${details ? `: ${details}` : ''}`);
         }
+        return result;
     }
 
-    async listAvailableKernels(): Promise<string[]> {
-        if (!this.container) {
+    async listAvailableKernels(): Promise<KernelSpecInfo[]> {
+        if (!this.containerId) {
             return [];
         }
 
         try {
-            const output = await this.execInContainer([
+            const result = await this.execInContainerOrThrow([
                 'jupyter', 'kernelspec', 'list', '--json'
-            ]);
-            
-            const cleanOutput = output.slice(8); // Remove Docker header
-            const data = JSON.parse(cleanOutput);
-            return Object.keys(data.kernelspecs || {});
+            ], 'Listing kernelspecs');
+
+            const data: { kernelspecs?: { [name: string]: { spec?: { display_name?: string; language?: string } } } } = JSON.parse(result.stdout);
+            return Object.entries(data.kernelspecs || {}).map(([name, entry]) => ({
+                name,
+                displayName: entry.spec?.display_name || name,
+                language: entry.spec?.language || 'python'
+            }));
         } catch (error) {
-            return ['docker-python'];
+            console.error('Failed to list kernels:', error);
+            return [DEFAULT_KERNELSPEC];
         }
     }
 
-    async rebuildContainer(): Promise<void> {
+    async rebuildContainer(progress?: ProgressReporter): Promise<void> {
+        if (this.getAttachedContainerId()) {
+            throw new Error('An attached container is not managed by the extension and cannot be rebuilt. Detach from it first');
+        }
+
+        const compose = await this.getComposeTarget(true);
+        if (compose) {
+            await this.ensureComposeContainer(compose, true);
+            await this.setupKernel();
+            return;
+        }
+
         await this.stopContainer();
+
+        // A rebuild starts over from the Dockerfile, leaving snapshots alone
+        await this.context.workspaceState.update(this.stateKey(ACTIVE_SNAPSHOT_STATE_KEY), undefined);
         
         // Remove existing image
         const imageName = this.getImageName();
         try {
-            const image = this.docker.getImage(imageName);
-            await image.remove();
+            await (await this.getRuntime()).removeImage(imageName);
         } catch (error) {
             // Image might not exist
         }
 
-        await this.ensureContainer();
+        await this.ensureContainer(progress);
+        await this.setupKernel();
+    }
+
+    // Commits the running container to a tag of "<runtime image>-snapshots". Volumes,
+    // including the workspace and cache volumes, are not part of a snapshot
+    async createSnapshot(tag: string, message: string): Promise<string> {
+        if (!(await this.isContainerRunning()) || !this.containerId) {
+            throw new Error('The runtime container is not running');
+        }
+        const repository = `${this.getLocalImageName()}-snapshots`;
+        await (await this.getRuntime()).commitContainer(this.containerId, repository, tag, message, {
+            [MANAGED_LABEL]: 'true',
+            [RUNTIME_LABEL]: this.scope.key,
+            [SNAPSHOT_LABEL]: message,
+            [SNAPSHOT_CREATED_LABEL]: new Date().toISOString()
+        });
+        return `${repository}:${tag}`;
+    }
+
+    // Snapshots of every runtime on the engine, newest first, so imported ones show too
+    async listSnapshots(): Promise<Docker.ImageInfo[]> {
+        const images = await (await this.getRuntime()).listImages(SNAPSHOT_LABEL);
+        return images.sort((a, b) => b.Created - a.Created);
+    }
+
+    getActiveSnapshot(): string | undefined {
+        return this.context.workspaceState.get<string>(this.stateKey(ACTIVE_SNAPSHOT_STATE_KEY));
+    }
+
+    // Replaces the container with one created from a snapshot, or from the runtime's
+    // own image again when ref is undefined
+    async startFromSnapshot(ref: string | undefined, progress?: ProgressReporter): Promise<void> {
+        if (this.getAttachedContainerId() || this.getRuntimeSource() === 'compose' || this.getDevcontainerConfig()?.compose) {
+            throw new Error('Snapshots can only be started in runtimes whose container the extension creates, not in attached or Compose containers');
+        }
+
+        const runtime = await this.getRuntime();
+        const containerName = this.getContainerName();
+        const info = await runtime.inspectContainer(containerName);
+        if (info) {
+            if (info.State.Running) {
+                await runtime.stopContainer(containerName);
+            }
+            await runtime.removeContainer(containerName);
+        }
+        this.containerId = undefined;
+
+        await this.context.workspaceState.update(this.stateKey(ACTIVE_SNAPSHOT_STATE_KEY), ref);
+        await this.ensureContainer(progress);
         await this.setupKernel();
     }
 
-    async stopContainer(): Promise<void> {
-        if (this.container) {
+    // Writes a snapshot as a docker save archive; onProgress gets the bytes written so far
+    async exportSnapshot(ref: string, file: string, onProgress?: (bytes: number) => void): Promise<void> {
+        const archive = await (await this.getRuntime()).saveImage(ref);
+        let bytes = 0;
+        archive.on('data', (chunk: Buffer) => {
+            bytes += chunk.length;
+            onProgress?.(bytes);
+        });
+        await pipeline(archive, fs.createWriteStream(file));
+    }
+
+    // Loads a docker save archive, e.g. one exported by a teammate; returns the images loaded
+    async importSnapshot(file: string): Promise<string[]> {
+        return (await this.getRuntime()).loadImage(fs.createReadStream(file));
+    }
+
+    // Stops the container and, unless remove is false, removes it
+    async stopContainer(remove = true): Promise<void> {
+        if (this.getAttachedContainerId()) {
+            // Never stop a container we did not create
+            this.containerId = undefined;
+            return;
+        }
+
+        if (this.getRuntimeSource() === 'compose' || this.getDevcontainerConfig()?.compose) {
+            // Compose containers belong to the project; stop the service without removing it
+            const target = await this.getComposeTarget(false);
+            if (target) {
+                await target.project.stop([target.service]);
+            }
+            this.containerId = undefined;
+            return;
+        }
+
+        if (this.containerId) {
             try {
-                await this.container.stop();
-                await this.container.remove();
-                this.container = undefined;
+                const runtime = await this.getRuntime();
+                if (remove) {
+                    // Kills and removes in one call, quick enough for VS Code's shutdown
+                    await runtime.removeContainer(this.containerId, true);
+                } else {
+                    await runtime.stopContainer(this.containerId);
+                }
+                this.containerId = undefined;
             } catch (error) {
                 console.error('Error stopping container:', error);
             }
@@ -344,6 +1015,9 @@ RUN pip install --no-cache-dir \\
     matplotlib \\
     scikit-learn
 
+# Render matplotlib figures inline in notebook cells
+ENV MPLBACKEND=module://matplotlib_inline.backend_inline
+
 # Create kernel
 RUN python3 -m ipykernel install --user --name docker-python
 
@@ -354,17 +1028,330 @@ CMD ["tail", "-f", "/dev/null"]
         console.log('Created default Dockerfile');
     }
 
-    private getContainerName(): string {
-        return this.config.get('containerName', 'jupyter-runtime');
+    getDockerfilePath(): string {
+        const build = this.getDevcontainerConfig()?.build;
+        if (build) {
+            return build.dockerfilePath;
+        }
+        return path.join(
+            this.workspaceRoot,
+            this.config.get('dockerfilePath', 'Dockerfile')
+        );
+    }
+
+    private getBuildContextDir(): string {
+        const build = this.getDevcontainerConfig()?.build;
+        if (build) {
+            return build.contextDir;
+        }
+        return path.resolve(this.workspaceRoot, this.config.get('buildContext', '.'));
+    }
+
+    private getBuildOptions(): { buildArgs: { [name: string]: string }; target: string; platform: string } {
+        const build = this.getDevcontainerConfig()?.build;
+        if (build) {
+            return {
+                buildArgs: build.args,
+                target: build.target || '',
+                platform: this.config.get('platform', '')
+            };
+        }
+        return {
+            buildArgs: this.config.get('buildArgs', {}),
+            target: this.config.get('buildTarget', ''),
+            platform: this.config.get('platform', '')
+        };
+    }
+
+    // Derived from the configured name, the runtime root and (for isolated notebooks)
+    // the notebook, so folders and VS Code windows never share a container by accident
+    getContainerName(): string {
+        const baseName = this.config.get('containerName', 'jupyter-runtime');
+        const parts = [baseName, toDockerName(path.basename(this.workspaceRoot))];
+        if (this.scope.notebookUri) {
+            parts.push(toDockerName(path.basename(this.scope.notebookUri.fsPath, '.ipynb')));
+        }
+        parts.push(scopeHash(this.scope.key));
+        return parts.join('-');
+    }
+
+    // Where the runtime root is mounted inside the container, when the extension mounts it
+    getContainerWorkspaceFolder(): string | undefined {
+        if (this.getAttachedContainerId() || this.getRuntimeSource() === 'compose') {
+            return undefined;
+        }
+        const devcontainer = this.getDevcontainerConfig();
+        if (devcontainer?.compose) {
+            return undefined;
+        }
+        return devcontainer?.workspaceFolder ?? '/workspace';
+    }
+
+    // Maps a host path below the runtime root to its path inside the container
+    toContainerPath(hostPath: string): string | undefined {
+        const workspaceFolder = this.getContainerWorkspaceFolder();
+        const relative = path.relative(this.workspaceRoot, hostPath);
+        if (!workspaceFolder || relative.startsWith('..') || path.isAbsolute(relative)) {
+            return undefined;
+        }
+        return path.posix.join(workspaceFolder, ...relative.split(path.sep));
+    }
+
+    getEngineDescription(): string {
+        return this.engine?.description ?? 'unavailable Docker engine';
+    }
+
+    isRemoteEngine(): boolean {
+        return !!this.engine?.remote;
+    }
+
+    syncsWorkspace(): boolean {
+        return this.isRemoteEngine() && this.config.get<RemoteWorkspaceMode>('remoteWorkspace', 'sync') === 'sync';
+    }
+
+    // Created on first use: telling Podman from Docker may need a round trip to the engine
+    async getRuntime(): Promise<ContainerRuntime> {
+        if (!this.engine) {
+            throw this.engineError ?? new Error('No container engine configured');
+        }
+        if (!this.runtime) {
+            this.runtime = await createContainerRuntime(this.engine, this.runtimeKind);
+        }
+        return this.runtime;
+    }
+
+    private warnAboutRemoteMounts(subject: string): void {
+        if (this.warnedAboutRemoteMounts) {
+            return;
+        }
+        this.warnedAboutRemoteMounts = true;
+        vscode.window.showWarningMessage(
+            `${subject} refer to paths on the Docker host ${this.getEngineDescription()}, not on this machine. Local files will not be visible unless that host shares them.`
+        );
+    }
+
+    private stateKey(key: string): string {
+        return `${key}:${this.scope.key}`;
+    }
+
+    private getRuntimeSource(): RuntimeSource {
+        return this.config.get('runtimeSource', 'dockerfile');
+    }
+
+    // Re-read on every use so edits to devcontainer.json apply to the next start
+    private getDevcontainerConfig(): DevcontainerConfig | undefined {
+        if (this.getRuntimeSource() !== 'devcontainer') {
+            return undefined;
+        }
+        return loadDevcontainerConfig(
+            path.join(this.workspaceRoot, this.config.get('devcontainerPath', '.devcontainer/devcontainer.json')),
+            this.workspaceRoot
+        );
+    }
+
+    // Image pulled instead of built: jupyterDocker.image (optionally pinned to a
+    // digest) or the image named by devcontainer.json
+    private getPrebuiltImage(): string | undefined {
+        if (this.getRuntimeSource() === 'devcontainer') {
+            return this.getDevcontainerConfig()?.image;
+        }
+
+        const image = this.config.get<string>('image', '').trim();
+        if (!image) {
+            return undefined;
+        }
+        const digest = this.config.get<string>('imageDigest', '').trim();
+        return digest && !image.includes('@') ? `${image}@${digest}` : image;
+    }
+
+    usesBuiltImage(): boolean {
+        return !this.getActiveSnapshot() && !this.getPrebuiltImage();
+    }
+
+    // Workspace mount, devcontainer.json mounts, jupyterDocker.mounts and cache volumes
+    private getMounts(devcontainer?: DevcontainerConfig): MountSpec {
+        const containerName = this.getContainerName();
+        const workspaceFolder = devcontainer?.workspaceFolder ?? '/workspace';
+
+        // A remote engine can't see local paths: copy the workspace into a volume, or
+        // bind-mount the same path on the engine host (e.g. a shared network drive)
+        const mounts: Docker.MountSettings[] = [...(devcontainer?.mounts || [])];
+        const binds: BindMount[] = [];
+        if (this.syncsWorkspace()) {
+            mounts.push({ Type: 'volume', Source: `${containerName}-workspace`, Target: workspaceFolder });
+        } else {
+            // A synced workspace is a copy that has to stay writable for the next sync
+            binds.push({ source: this.workspaceRoot, target: workspaceFolder, readOnly: this.getSandboxOptions().readOnlyWorkspace });
+        }
+
+        for (const entry of this.config.get<string[]>('mounts', [])) {
+            const mount = parseMount(entry, (value) => this.expandMountVariables(value));
+            if (mount.Type === 'bind') {
+                // Docker needs absolute bind sources; relative ones are relative to the workspace
+                mount.Source = path.resolve(this.workspaceRoot, mount.Source.replace(/^~(?=$|[\\/])/, os.homedir()));
+            }
+            mounts.push(mount);
+        }
+
+        const home = devcontainer?.containerUser || !this.getHostUser() ? '/root' : CONTAINER_HOME;
+        mounts.push(...this.getCacheVolumes(home));
+        return { binds, mounts };
+    }
+
+    // Named volumes for jupyterDocker.cacheVolumes, shared by every runtime so a
+    // download cache survives rebuilds and is reused across projects
+    private getCacheVolumes(home: string): Docker.MountSettings[] {
+        return this.config.get<string[]>('cacheVolumes', []).map((entry) => ({
+            Type: 'volume' as Docker.MountType,
+            Source: `jupyter-docker-cache-${toDockerName(entry.replace(/^~\/?/, ''))}`,
+            Target: entry.replace(/^~(?=$|\/)/, home)
+        }));
+    }
+
+    private expandMountVariables(value: string): string {
+        return value.replace(/\$\{([^}]+)\}/g, (match, variable: string) => {
+            if (variable === 'workspaceFolder' || variable === 'localWorkspaceFolder') {
+                return this.workspaceRoot;
+            }
+            if (variable === 'userHome') {
+                return os.homedir();
+            }
+            if (variable.startsWith('env:')) {
+                return process.env[variable.slice('env:'.length)] ?? '';
+            }
+            return match;
+        });
+    }
+
+    // "uid:gid" of the VS Code user. Not used for remote engines, where host ids mean
+    // nothing, or on Windows, which has no numeric ids
+    private getHostUser(): string | undefined {
+        if (!this.config.get('runAsHostUser', true) || this.isRemoteEngine() || !process.getuid || !process.getgid) {
+            return undefined;
+        }
+        return `${process.getuid()}:${process.getgid()}`;
+    }
+
+    private getResourceLimits(): ResourceLimits {
+        const limits: ResourceLimits = {};
+        const memory = this.config.get<string>('memory', '').trim();
+        if (memory) {
+            limits.memory = parseByteSize(memory, 'memory');
+        }
+        const memorySwap = this.config.get<string>('memorySwap', '').trim();
+        if (memorySwap) {
+            // -1 allows unlimited swap, as with docker run --memory-swap -1
+            limits.memorySwap = memorySwap === '-1' ? -1 : parseByteSize(memorySwap, 'memorySwap');
+        }
+        const cpus = this.config.get<number>('cpus', 0);
+        if (cpus > 0) {
+            limits.cpus = cpus;
+        }
+        const shmSize = this.config.get<string>('shmSize', '').trim();
+        if (shmSize) {
+            limits.shmSize = parseByteSize(shmSize, 'shmSize');
+        }
+
+        const ulimits = Object.entries(this.config.get<{ [name: string]: string | number }>('ulimits', {}));
+        if (ulimits.length > 0) {
+            limits.ulimits = ulimits.map(([name, value]) => {
+                // "soft:hard" or a single number for both
+                const [soft, hard = soft] = String(value).split(':').map((part) => Number(part.trim()));
+                if (!Number.isInteger(soft) || !Number.isInteger(hard)) {
+                    throw new Error(`Invalid jupyterDocker.ulimits value for ${name}: "${value}" (expected "soft:hard" or a number)`);
+                }
+                return { Name: name, Soft: soft, Hard: hard };
+            });
+        }
+        return limits;
+    }
+
+    private getSandboxOptions(): SandboxOptions {
+        return {
+            readOnlyWorkspace: this.config.get('readOnlyWorkspace', false),
+            network: this.config.get('network', ''),
+            dropCapabilities: this.config.get('dropCapabilities', false),
+            noNewPrivileges: this.config.get('noNewPrivileges', false),
+            pidsLimit: this.config.get('pidsLimit', 0)
+        };
+    }
+
+    getLifecyclePolicy(): LifecyclePolicy {
+        return this.config.get('lifecycle', 'keepRunning');
+    }
+
+    getIdleTimeoutMinutes(): number {
+        return this.config.get('idleTimeout', 30);
+    }
+
+    getPythonPath(): string {
+        return this.config.get('pythonPath', '/usr/local/bin/python3');
+    }
+
+    // devcontainer.json's remoteUser is the user tools (here: the kernel) run as
+    private getExecUser(): string | undefined {
+        const devcontainer = this.getDevcontainerConfig();
+        return devcontainer?.remoteUser ?? devcontainer?.containerUser;
     }
 
     private getImageName(): string {
-        const workspaceName = path.basename(this.workspaceRoot);
-        return `jupyter-docker-${workspaceName.toLowerCase()}`;
+        return this.getActiveSnapshot() ?? this.getPrebuiltImage() ?? this.getLocalImageName();
     }
 
-    dispose(): void {
-        // Optionally stop container on extension deactivation
-        // this.stopContainer();
+    // Name of the image built for the runtime. Isolated notebooks share the image of their folder
+    private getLocalImageName(): string {
+        return `jupyter-docker-${toDockerName(path.basename(this.workspaceRoot))}-${scopeHash(this.workspaceRoot)}`;
+    }
+
+    // Applies jupyterDocker.lifecycle when VS Code closes. Only containers this window
+    // used are touched, and stopContainer leaves attached containers running
+    async dispose(): Promise<void> {
+        const policy = this.getLifecyclePolicy();
+        if (policy === 'keepRunning' || !this.containerId) {
+            return;
+        }
+        await this.stopContainer(policy === 'removeOnExit');
+    }
+}
+
+// Short, stable suffix that keeps names unique across folders and VS Code windows
+function scopeHash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex').slice(0, 8);
+}
+
+// Fingerprint of a container's settings. Mounts and environment are compared as sets,
+// so reordering them in the settings doesn't ask for a new container
+function hashContainerSpec(spec: ContainerSpec): string {
+    const normalized = {
+        ...spec,
+        env: [...spec.env].sort(),
+        binds: spec.binds.map((bind) => `${bind.source}:${bind.target}:${bind.readOnly ? 'ro' : 'rw'}`).sort(),
+        mounts: spec.mounts.map((mount) => `${mount.Type}:${mount.Source}:${mount.Target}:${mount.ReadOnly ? 'ro' : 'rw'}`).sort()
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 16);
+}
+
+// Lowercases and replaces characters Docker does not allow in names
+function toDockerName(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9_.-]+/g, '-').replace(/^[^a-z0-9]+/, '') || 'workspace';
+}
+
+// Parses Docker-style sizes such as "512m" or "4g" (binary units)
+function parseByteSize(value: string, setting: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([bkmg]?)b?$/i.exec(value);
+    if (!match) {
+        throw new Error(`Invalid size "${value}" for jupyterDocker.${setting} (expected e.g. "512m" or "4g")`);
+    }
+    const units: { [unit: string]: number } = { '': 1, b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+    return Math.round(parseFloat(match[1]) * units[match[2].toLowerCase()]);
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) {
+        return `${Math.round(bytes / 1024)} KB`;
+    }
+    if (bytes < 1024 * 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
     }
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Environment for the runtime container from jupyterDocker.envFiles and
+// jupyterDocker.env. Later files override earlier ones, and env overrides them all.
+export function resolveEnvironment(
+    config: vscode.WorkspaceConfiguration,
+    workspaceRoot: string,
+    containerWorkspaceFolder: string
+): { [name: string]: string } {
+    const env: { [name: string]: string } = {};
+
+    // Env files are read on this machine, so ${workspaceFolder} is the local folder
+    for (const file of config.get<string[]>('envFiles', [])) {
+        const filePath = path.resolve(workspaceRoot, expandVariables(file, workspaceRoot));
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`Env file not found: ${filePath}`);
+        }
+        Object.assign(env, parseEnvFile(fs.readFileSync(filePath, 'utf-8')));
+    }
+
+    // Values are used inside the container, so ${workspaceFolder} is the container's
+    for (const [name, value] of Object.entries(config.get<{ [name: string]: string }>('env', {}))) {
+        env[name] = expandVariables(String(value), containerWorkspaceFolder);
+    }
+    return env;
+}
+
+// ${workspaceFolder}, ${workspaceFolderBasename} and ${env:NAME} (from the host)
+function expandVariables(value: string, workspaceFolder: string): string {
+    return value.replace(/\$\{([^}]+)\}/g, (match, variable: string) => {
+        if (variable === 'workspaceFolder') {
+            return workspaceFolder;
+        }
+        if (variable === 'workspaceFolderBasename') {
+            return path.posix.basename(workspaceFolder.replace(/\\/g, '/'));
+        }
+        if (variable.startsWith('env:')) {
+            return process.env[variable.slice('env:'.length)] ?? '';
+        }
+        return match;
+    });
+}
+
+// Parses the common .env format: NAME=value lines, optional "export", # comments,
+// and single- or double-quoted values (double quotes understand \n, \t, \" and \\)
+export function parseEnvFile(text: string): { [name: string]: string } {
+    const env: { [name: string]: string } = {};
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+        const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/.exec(line);
+        if (!match) {
+            continue;
+        }
+
+        const [, name, rawValue] = match;
+        let value: string;
+        if (rawValue.startsWith('"')) {
+            const end = findClosingQuote(rawValue);
+            value = rawValue.slice(1, end === -1 ? undefined : end)
+                .replace(/\\(.)/g, (escape, char: string) => ({ n: '\n', r: '\r', t: '\t' } as { [char: string]: string })[char] ?? char);
+        } else if (rawValue.startsWith('\'')) {
+            const end = rawValue.indexOf('\'', 1);
+            value = rawValue.slice(1, end === -1 ? undefined : end);
+        } else {
+            // An unquoted value ends at a comment that follows whitespace
+            value = rawValue.replace(/\s+#.*$/, '').trim();
+        }
+        env[name] = value;
+    }
+    return env;
+}
+
+function findClosingQuote(value: string): number {
+    for (let i = 1; i < value.length; i++) {
+        if (value[i] === '\\') {
+            i++;
+        } else if (value[i] === '"') {
+            return i;
+        }
+    }
+    return -1;
+}
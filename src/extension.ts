@@ -1,23 +1,92 @@
 import * as vscode from 'vscode';
-import { DockerManager } from './dockerManager';
+import Docker, { ContainerInfo } from 'dockerode';
+import { DockerManager, RUNTIME_LABEL, SNAPSHOT_CREATED_LABEL, SNAPSHOT_LABEL, formatBytes } from './dockerManager';
 import { DockerKernelProvider } from './kernelProvider';
+import { RuntimeRegistry } from './runtimeRegistry';
+import { RuntimeNode, RuntimeTreeProvider } from './runtimeTree';
+import { SecretStore, isValidEnvName } from './secrets';
+import { openInSimpleBrowser } from './portForwarder';
+import { RuntimeLifecycle } from './lifecycle';
+import { PackageInstaller, PackageManager, RecordTarget, getRecordTargets, isPackageRecorded, isUsedByDockerfile, recordPackages } from './packages';
+import { PackageNode, PackagesTreeProvider } from './packagesTree';
+import { EnvironmentRecord, EnvironmentRecorder, getPackagesToRestore } from './reproducibility';
 
-let dockerManager: DockerManager;
+let runtimes: RuntimeRegistry;
 let kernelProvider: DockerKernelProvider;
+let sandboxStatusItem: vscode.StatusBarItem;
+let statsStatusItem: vscode.StatusBarItem;
+let runtimeTree: RuntimeTreeProvider;
+let logsChannel: vscode.OutputChannel | undefined;
+let packagesTree: PackagesTreeProvider;
+let packagesChannel: vscode.OutputChannel | undefined;
+
+// How often the status bar refreshes container CPU and memory use
+const STATS_INTERVAL_MS = 5000;
+
+// Log lines shown by the sidebar's "Show Logs" action
+const LOG_TAIL_LINES = 1000;
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('Jupyter Docker Runtime extension activating');
     try {
-        console.log('Initializing DockerManager and DockerKernelProvider');
+        console.log('Initializing RuntimeRegistry and DockerKernelProvider');
 
-        // Initialize Docker manager
-        dockerManager = new DockerManager(context);
-        console.log('DockerManager created');
+        // Initialize the registry of per-folder / per-notebook Docker managers
+        runtimes = new RuntimeRegistry(context);
+        console.log('RuntimeRegistry created');
         
         // Initialize kernel provider
-        kernelProvider = new DockerKernelProvider(dockerManager, context);
+        kernelProvider = new DockerKernelProvider(runtimes, context);
         console.log('DockerKernelProvider created');
 
+        // Shows which sandbox protections the active notebook's container runs with
+        sandboxStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        sandboxStatusItem.text = '$(shield) Sandboxed';
+        context.subscriptions.push(sandboxStatusItem);
+
+        // Live CPU and memory use of the active notebook's container
+        statsStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        context.subscriptions.push(statsStatusItem);
+        let polling = false;
+        const statsTimer = setInterval(async () => {
+            // A stats sample takes about a second; never let polls pile up
+            if (polling) {
+                return;
+            }
+            polling = true;
+            try {
+                await updateStatsStatus();
+            } finally {
+                polling = false;
+            }
+        }, STATS_INTERVAL_MS);
+        context.subscriptions.push({ dispose: () => clearInterval(statsTimer) });
+
+        // Sidebar view of runtime containers, images, kernels and forwarded ports
+        runtimeTree = new RuntimeTreeProvider(runtimes, kernelProvider);
+        context.subscriptions.push(
+            runtimeTree,
+            vscode.window.registerTreeDataProvider('jupyterDocker.runtimes', runtimeTree),
+            kernelProvider.onDidChangeForwardedPorts(() => runtimeTree.refresh())
+        );
+
+        // Sidebar view of the packages installed in the active runtime
+        packagesTree = new PackagesTreeProvider(runtimes);
+        context.subscriptions.push(
+            packagesTree,
+            vscode.window.registerTreeDataProvider('jupyterDocker.packages', packagesTree)
+        );
+
+        // Stops containers whose notebooks closed or went idle (jupyterDocker.lifecycle)
+        context.subscriptions.push(new RuntimeLifecycle(runtimes, kernelProvider, () => {
+            updateSandboxStatus();
+            runtimeTree.refresh();
+            packagesTree.refresh();
+        }));
+
+        // Records the environment in notebook metadata and warns when it no longer matches
+        context.subscriptions.push(new EnvironmentRecorder(runtimes, kernelProvider, restoreEnvironment));
+
     // Register kernel provider
     context.subscriptions.push(
         vscode.workspace.registerNotebookSerializer(
@@ -30,33 +99,273 @@ export async function activate(context: vscode.ExtensionContext) {
     // Register commands
     context.subscriptions.push(
         vscode.commands.registerCommand('jupyter-docker.rebuildContainer', async () => {
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: "Rebuilding Docker container...",
-                cancellable: false
-            }, async () => {
-                await dockerManager.rebuildContainer();
-                vscode.window.showInformationMessage('Container rebuilt successfully');
-            });
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            await rebuildRuntime(dockerManager);
         })
     );
 
     context.subscriptions.push(
         vscode.commands.registerCommand('jupyter-docker.stopContainer', async () => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            if (dockerManager.getAttachedContainerId()) {
+                vscode.window.showInformationMessage('The attached container is not managed by the extension. Use "Detach from Container" instead');
+                return;
+            }
+            kernelProvider.shutdownKernels(dockerManager);
             await dockerManager.stopContainer();
+            await updateSandboxStatus();
             vscode.window.showInformationMessage('Container stopped');
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.attachContainer', async () => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            let containers;
+            try {
+                containers = await dockerManager.listRunningContainers();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to list containers: ${error}`);
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                containers.map((c) => ({
+                    label: getContainerLabel(c),
+                    description: c.Image,
+                    detail: c.Status,
+                    id: c.Id
+                })),
+                { placeHolder: 'Select a running container to run notebooks in' }
+            );
+            if (!selected) {
+                return;
+            }
+
+            try {
+                await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Attaching to ${selected.label}...`,
+                    cancellable: false
+                }, async (progress) => {
+                    progress.report({ message: 'Checking for ipykernel...' });
+                    await dockerManager.attachToContainer(selected.id);
+                });
+                // Kernels of the previous runtime keep running there; start fresh ones
+                kernelProvider.shutdownKernels(dockerManager);
+                vscode.window.showInformationMessage(`Notebooks now run in ${selected.label}`);
+            } catch (error) {
+                await dockerManager.detachFromContainer();
+                vscode.window.showErrorMessage(`Failed to attach to ${selected.label}: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.detachContainer', async () => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            if (!dockerManager.getAttachedContainerId()) {
+                vscode.window.showInformationMessage('Not attached to a container');
+                return;
+            }
+            kernelProvider.shutdownKernels(dockerManager);
+            await dockerManager.detachFromContainer();
+            vscode.window.showInformationMessage('Detached; the container was left running');
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.syncWorkspace', async () => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            if (!dockerManager.syncsWorkspace()) {
+                vscode.window.showInformationMessage('The workspace is bind-mounted into this runtime; there is nothing to copy');
+                return;
+            }
+            try {
+                const fileCount = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Copying workspace to ${dockerManager.getEngineDescription()}...`,
+                    cancellable: false
+                }, async () => {
+                    // Starting the container copies the workspace on its own
+                    if (!(await dockerManager.isContainerRunning())) {
+                        await dockerManager.ensureContainer();
+                        await dockerManager.setupKernel();
+                        return undefined;
+                    }
+                    return dockerManager.syncWorkspace();
+                });
+                if (fileCount === undefined) {
+                    vscode.window.showInformationMessage('Container started with the current workspace');
+                    return;
+                }
+                vscode.window.showInformationMessage(`Copied ${fileCount} files to the container`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to copy the workspace: ${error}`);
+            }
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('jupyter-docker.selectKernel', async () => {
-            const kernels = await dockerManager.listAvailableKernels();
-            const selected = await vscode.window.showQuickPick(kernels, {
-                placeHolder: 'Select a kernel'
-            });
+            const notebook = getActiveNotebook();
+            if (!notebook) {
+                return;
+            }
+            const dockerManager = runtimes.getForNotebook(notebook.uri);
+            await ensureContainerRunning(dockerManager);
+
+            let kernels;
+            try {
+                kernels = await kernelProvider.refreshKernelspecs(dockerManager);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to list kernels: ${error}`);
+                return;
+            }
+            const selected = await vscode.window.showQuickPick(
+                kernels.map((spec) => ({ label: spec.displayName, description: spec.name, detail: spec.language, spec })),
+                { placeHolder: 'Select a kernel' }
+            );
             if (selected) {
-                vscode.window.showInformationMessage(`Selected kernel: ${selected}`);
+                await kernelProvider.selectKernel(selected.spec);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.interruptKernel', () => {
+            const notebook = getActiveNotebook();
+            if (notebook) {
+                kernelProvider.interruptKernel(notebook);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.restartKernel', async () => {
+            const notebook = getActiveNotebook();
+            if (notebook) {
+                await kernelProvider.restartKernel(notebook);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.restartKernelAndRunAll', async () => {
+            const notebook = getActiveNotebook();
+            if (notebook) {
+                await kernelProvider.restartKernel(notebook);
+                await vscode.commands.executeCommand('notebook.execute');
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.toggleIsolatedRuntime', async () => {
+            const notebook = getActiveNotebook();
+            if (!notebook) {
+                return;
             }
+            const isolated = !runtimes.isIsolated(notebook.uri);
+            await runtimes.setIsolated(notebook.uri, isolated);
+
+            // The next cell run starts a kernel in the notebook's new runtime
+            kernelProvider.shutdownKernels(undefined, notebook);
+            vscode.window.showInformationMessage(isolated
+                ? 'This notebook now runs in its own container'
+                : 'This notebook now shares its folder\'s container');
+        })
+    );
+
+    const secrets = new SecretStore(context);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.setSecret', async () => {
+            const name = await vscode.window.showInputBox({
+                title: 'Set Secret',
+                prompt: 'Environment variable name the kernel sees',
+                placeHolder: 'API_KEY',
+                ignoreFocusOut: true,
+                validateInput: (value) => isValidEnvName(value) ? undefined : 'Use letters, digits and underscores, not starting with a digit'
+            });
+            if (!name) {
+                return;
+            }
+            const value = await vscode.window.showInputBox({
+                title: `Set Secret ${name}`,
+                prompt: 'Stored in the system keychain and passed to kernels, never written to disk',
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (value === undefined) {
+                return;
+            }
+            await secrets.set(name, value);
+            vscode.window.showInformationMessage(`Secret ${name} saved. Restart running kernels to use it`);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.removeSecret', async () => {
+            const names = secrets.list();
+            if (names.length === 0) {
+                vscode.window.showInformationMessage('No secrets are stored for this workspace');
+                return;
+            }
+            const name = await vscode.window.showQuickPick(names, { placeHolder: 'Select a secret to remove' });
+            if (name) {
+                await secrets.delete(name);
+                vscode.window.showInformationMessage(`Secret ${name} removed. Running kernels keep it until they restart`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.showForwardedPorts', async () => {
+            const forwarded = kernelProvider.getForwardedPorts();
+            if (forwarded.length === 0) {
+                vscode.window.showInformationMessage('No servers started from notebooks are forwarded');
+                return;
+            }
+            const choice = await vscode.window.showQuickPick(
+                forwarded.map(({ port }) => ({
+                    label: port.url,
+                    description: `container port ${port.containerPort}`,
+                    url: port.url
+                })),
+                { placeHolder: 'Select a server to open in the Simple Browser' }
+            );
+            if (choice) {
+                await openInSimpleBrowser(choice.url);
+            }
+        })
+    );
+
+    registerViewCommands(context);
+    registerPackageCommands(context);
+    registerSnapshotCommands(context);
+
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveNotebookEditor(() => {
+            updateSandboxStatus();
+            // The views follow the active notebook's runtime
+            runtimeTree.refresh();
+            packagesTree.refresh();
         })
     );
 
@@ -64,18 +373,56 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.workspace.onDidOpenNotebookDocument(async (notebook) => {
             if (notebook.notebookType === 'jupyter-notebook') {
-                const config = vscode.workspace.getConfiguration('jupyterDocker');
+                const config = vscode.workspace.getConfiguration('jupyterDocker', notebook.uri);
                 if (config.get('autoStart')) {
-                    await ensureContainerRunning();
+                    await ensureContainerRunning(runtimes.getForNotebook(notebook.uri));
                 }
             }
         })
     );
 
-    // Try to start container on activation if notebooks are already open
-    const notebooks = vscode.workspace.notebookDocuments;
-    if (notebooks.length > 0) {
-        await ensureContainerRunning();
+    // Offer a rebuild when the runtime's Dockerfile is edited
+    context.subscriptions.push(
+        vscode.workspace.onDidSaveTextDocument(async (document) => {
+            const dockerManager = runtimes.all().find((runtime) => {
+                try {
+                    return runtime.usesBuiltImage() && runtime.getDockerfilePath() === document.uri.fsPath;
+                } catch (error) {
+                    // devcontainer.json is mid-edit or invalid
+                    return false;
+                }
+            });
+            if (!dockerManager) {
+                return;
+            }
+            const choice = await vscode.window.showInformationMessage(
+                'The runtime Dockerfile changed. Rebuild the container?',
+                'Rebuild'
+            );
+            if (choice === 'Rebuild') {
+                await rebuildRuntime(dockerManager);
+            }
+        })
+    );
+
+    // Settings that containers are created with only apply to a new container
+    context.subscriptions.push(
+        runtimes.onDidChangeConfiguration(async (dockerManager) => {
+            runtimeTree.refresh();
+            await updateSandboxStatus();
+            if (await dockerManager.checkConfigDrift()) {
+                kernelProvider.shutdownKernels(dockerManager);
+                await dockerManager.stopContainer();
+                await ensureContainerRunning(dockerManager);
+            }
+        })
+    );
+
+    // Try to start containers on activation if notebooks are already open
+    const notebooks = vscode.workspace.notebookDocuments.filter((notebook) => notebook.notebookType === 'jupyter-notebook');
+    const openRuntimes = new Set(notebooks.map((notebook) => runtimes.getForNotebook(notebook.uri)));
+    for (const dockerManager of openRuntimes) {
+        await ensureContainerRunning(dockerManager);
     }
     } catch (err) {
         console.error('Extension activation error:', err);
@@ -87,7 +434,669 @@ export async function activate(context: vscode.ExtensionContext) {
     }
 }
 
-async function ensureContainerRunning() {
+// Inline actions of the runtime sidebar view
+function registerViewCommands(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.refresh', () => runtimeTree.refresh())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.start', async (node?: RuntimeNode) => {
+            const info = getContainerNode(node);
+            if (!info) {
+                return;
+            }
+            const owner = runtimes.findByKey(info.Labels[RUNTIME_LABEL]);
+            if (owner) {
+                // Starting through the owning runtime also installs the kernel
+                await ensureContainerRunning(owner);
+                return;
+            }
+            try {
+                const runtime = await getViewRuntime();
+                await runtime?.startContainer(info.Id);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to start container: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.stop', async (node?: RuntimeNode) => {
+            const info = getContainerNode(node);
+            if (!info) {
+                return;
+            }
+            const owner = runtimes.findByKey(info.Labels[RUNTIME_LABEL]);
+            if (owner) {
+                kernelProvider.shutdownKernels(owner);
+            }
+            try {
+                const runtime = await getViewRuntime();
+                await runtime?.stopContainer(info.Id);
+                await updateSandboxStatus();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to stop container: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.rebuild', async (node?: RuntimeNode) => {
+            const info = getContainerNode(node);
+            if (!info) {
+                return;
+            }
+            const owner = runtimes.findByKey(info.Labels[RUNTIME_LABEL]);
+            if (!owner) {
+                vscode.window.showWarningMessage('This container belongs to a folder or notebook that is not open in this window');
+                return;
+            }
+            await rebuildRuntime(owner);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.remove', async (node?: RuntimeNode) => {
+            const info = getContainerNode(node);
+            if (!info) {
+                return;
+            }
+            const name = getContainerLabel(info);
+            const choice = await vscode.window.showWarningMessage(
+                `Remove container ${name}? Files outside the workspace are lost.`,
+                { modal: true },
+                'Remove'
+            );
+            if (choice !== 'Remove') {
+                return;
+            }
+            const owner = runtimes.findByKey(info.Labels[RUNTIME_LABEL]);
+            if (owner) {
+                kernelProvider.shutdownKernels(owner);
+            }
+            try {
+                const runtime = await getViewRuntime();
+                if (info.State === 'running') {
+                    await runtime?.stopContainer(info.Id);
+                }
+                await runtime?.removeContainer(info.Id);
+                await updateSandboxStatus();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to remove container: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.terminal', async (node?: RuntimeNode) => {
+            const info = getContainerNode(node);
+            if (!info) {
+                return;
+            }
+            try {
+                const runtime = await getViewRuntime();
+                if (!runtime) {
+                    return;
+                }
+                // Terminal env values of null unset variables the CLI would otherwise inherit
+                const env: { [key: string]: string | null } = {};
+                for (const [key, value] of Object.entries(runtime.engine.cliEnv)) {
+                    env[key] = value ?? null;
+                }
+                const terminal = vscode.window.createTerminal({
+                    name: getContainerLabel(info),
+                    shellPath: runtime.kind === 'podman' ? 'podman' : 'docker',
+                    shellArgs: ['exec', '-it', info.Id, 'sh', '-c', 'if command -v bash >/dev/null; then exec bash; else exec sh; fi'],
+                    env
+                });
+                terminal.show();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to open a terminal: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.logs', async (node?: RuntimeNode) => {
+            const info = getContainerNode(node);
+            if (!info) {
+                return;
+            }
+            try {
+                const runtime = await getViewRuntime();
+                if (!runtime) {
+                    return;
+                }
+                const logs = await runtime.logs(info.Id, LOG_TAIL_LINES);
+                if (!logsChannel) {
+                    logsChannel = vscode.window.createOutputChannel('Jupyter Docker Logs');
+                    context.subscriptions.push(logsChannel);
+                }
+                logsChannel.clear();
+                logsChannel.appendLine(`--- ${getContainerLabel(info)} (last ${LOG_TAIL_LINES} lines) ---`);
+                logsChannel.append(logs);
+                logsChannel.show(true);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to read container logs: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.removeImage', async (node?: RuntimeNode) => {
+            if (node?.kind !== 'image') {
+                return;
+            }
+            const image: Docker.ImageInfo = node.info;
+            const tag = image.RepoTags?.find((repoTag) => repoTag !== '<none>:<none>');
+            const snapshot = image.Labels?.[SNAPSHOT_LABEL] !== undefined;
+            const choice = await vscode.window.showWarningMessage(
+                snapshot
+                    ? `Remove snapshot ${tag || image.Id.slice(7, 19)}? It cannot be restored unless it was exported.`
+                    : `Remove image ${tag || image.Id.slice(7, 19)}? It is rebuilt the next time a runtime needs it.`,
+                { modal: true },
+                'Remove'
+            );
+            if (choice !== 'Remove') {
+                return;
+            }
+            try {
+                const runtime = await getViewRuntime();
+                await runtime?.removeImage(image.Id);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to remove image: ${error}`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.openPort', async (node?: RuntimeNode) => {
+            const portNode = getPortNode(node);
+            if (portNode) {
+                await openInSimpleBrowser(portNode.port.url);
+            }
+        }),
+        vscode.commands.registerCommand('jupyter-docker.view.openPortExternal', async (node?: RuntimeNode) => {
+            const portNode = getPortNode(node);
+            if (portNode) {
+                await vscode.env.openExternal(vscode.Uri.parse(portNode.port.url));
+            }
+        }),
+        vscode.commands.registerCommand('jupyter-docker.view.stopForwarding', async (node?: RuntimeNode) => {
+            const portNode = getPortNode(node);
+            if (portNode) {
+                await kernelProvider.stopForwardingPort(portNode.runtime, portNode.port.containerPort);
+            }
+        })
+    );
+}
+
+// Install Package command and the actions of the Installed Packages view
+function registerPackageCommands(context: vscode.ExtensionContext) {
+    // The channel is created by the first package operation, which may run outside
+    // these commands (restoring a recorded environment)
+    context.subscriptions.push({ dispose: () => packagesChannel?.dispose() });
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.installPackage', async () => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            const input = await vscode.window.showInputBox({
+                prompt: 'Packages to install in the runtime container',
+                placeHolder: 'e.g. requests or "pandas>=2" seaborn'
+            });
+            const specs = input?.match(/"[^"]+"|'[^']+'|\S+/g)?.map((spec) => spec.replace(/^(['"])(.*)\1$/, '$2'));
+            if (!specs || specs.length === 0) {
+                return;
+            }
+
+            await ensureContainerRunning(dockerManager);
+            if (!(await dockerManager.isContainerRunning())) {
+                return;
+            }
+            const installer = await runPackageOperation(
+                `Installing ${specs.join(', ')}`,
+                (onOutput) => new PackageManager(dockerManager).install(specs, onOutput)
+            );
+            packagesTree.refresh();
+            if (installer) {
+                await offerToRecordPackages(dockerManager, specs, installer);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.refreshPackages', () => packagesTree.refresh())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.upgradePackage', async (node?: PackageNode) => {
+            if (node?.kind !== 'package') {
+                return;
+            }
+            await runPackageOperation(
+                `Upgrading ${node.info.name}`,
+                (onOutput) => new PackageManager(node.runtime).upgrade(node.info.name, onOutput)
+            );
+            packagesTree.refresh();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.view.uninstallPackage', async (node?: PackageNode) => {
+            if (node?.kind !== 'package') {
+                return;
+            }
+            const choice = await vscode.window.showWarningMessage(
+                `Uninstall ${node.info.name} ${node.info.version} from the runtime container? Running kernels keep modules they already imported.`,
+                { modal: true },
+                'Uninstall'
+            );
+            if (choice !== 'Uninstall') {
+                return;
+            }
+            await runPackageOperation(
+                `Uninstalling ${node.info.name}`,
+                (onOutput) => new PackageManager(node.runtime).uninstall(node.info.name, onOutput)
+            );
+            packagesTree.refresh();
+        })
+    );
+
+    // %pip install in a cell is as temporary as the command; offer the same recording
+    context.subscriptions.push(
+        kernelProvider.onDidInstallPackages(async ({ runtime, installs }) => {
+            packagesTree.refresh();
+            for (const { installer, specs } of installs) {
+                await offerToRecordPackages(runtime, specs, installer);
+            }
+        })
+    );
+}
+
+// Runs a pip/uv/conda command with its last output line as progress. The full output
+// goes to an output channel, shown when the command fails
+async function runPackageOperation<T>(title: string, operation: (onOutput: (text: string) => void) => Promise<T>): Promise<T | undefined> {
+    if (!packagesChannel) {
+        packagesChannel = vscode.window.createOutputChannel('Jupyter Docker Packages');
+    }
+    const channel = packagesChannel;
+    channel.appendLine(`--- ${title} ---`);
+
+    try {
+        return await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title,
+            cancellable: false
+        }, (progress) => operation((text) => {
+            channel.append(text);
+            const lines = text.split(/[\r\n]+/).map((line) => line.trim()).filter(Boolean);
+            if (lines.length > 0) {
+                progress.report({ message: lines[lines.length - 1].slice(0, 100) });
+            }
+        }));
+    } catch (error) {
+        channel.appendLine(String(error));
+        const choice = await vscode.window.showErrorMessage(`${title} failed: ${error}`, 'Show Output');
+        if (choice === 'Show Output') {
+            channel.show(true);
+        }
+        return undefined;
+    }
+}
+
+// Installed packages disappear with the container; offer to add them to a file the
+// next image build installs from
+async function offerToRecordPackages(dockerManager: DockerManager, specs: string[], installer: PackageInstaller) {
+    const unrecorded = specs.filter((spec) => !isPackageRecorded(dockerManager, spec));
+    if (unrecorded.length === 0) {
+        return;
+    }
+    const choice = await vscode.window.showInformationMessage(
+        `Installed ${unrecorded.join(', ')}. Record ${unrecorded.length === 1 ? 'it' : 'them'} so the next container build includes ${unrecorded.length === 1 ? 'it' : 'them'}?`,
+        ...getRecordTargets(dockerManager)
+    );
+    if (!choice) {
+        return;
+    }
+
+    const target: RecordTarget = choice;
+    try {
+        const file = recordPackages(dockerManager, target, unrecorded, installer);
+        if (!isUsedByDockerfile(dockerManager, target)) {
+            vscode.window.showWarningMessage(`The Dockerfile doesn't install from ${target}, so the next build won't include these packages until it does`);
+        }
+        const open = await vscode.window.showInformationMessage(`Added ${unrecorded.join(', ')} to ${target}`, 'Open');
+        if (open === 'Open') {
+            await vscode.window.showTextDocument(vscode.Uri.file(file));
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to record packages in ${target}: ${error}`);
+    }
+}
+
+// Snapshot commands: commit the runtime container to an image, start from one, and
+// move snapshots between machines as docker save archives
+function registerSnapshotCommands(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.createSnapshot', async () => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            if (!(await dockerManager.isContainerRunning())) {
+                vscode.window.showWarningMessage('Start the runtime before taking a snapshot of it');
+                return;
+            }
+            const tag = await vscode.window.showInputBox({
+                prompt: 'Snapshot tag',
+                value: `snapshot-${new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15)}`,
+                validateInput: (value) => /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/.test(value)
+                    ? undefined
+                    : 'Use letters, digits, "_", "." and "-", at most 128 characters, not starting with "." or "-"'
+            });
+            if (!tag) {
+                return;
+            }
+            const message = await vscode.window.showInputBox({
+                prompt: 'Snapshot message',
+                placeHolder: 'e.g. after installing the CUDA toolkit'
+            });
+            if (message === undefined) {
+                return;
+            }
+
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Taking a snapshot of the runtime container...',
+                cancellable: false
+            }, async () => {
+                try {
+                    const ref = await dockerManager.createSnapshot(tag, message);
+                    runtimeTree.refresh();
+                    vscode.window.showInformationMessage(`Snapshot ${ref} created`);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to create snapshot: ${error}`);
+                }
+            });
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.listSnapshots', async () => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            const ref = await pickSnapshot(dockerManager, 'Snapshots of the runtime containers', false);
+            if (!ref) {
+                return;
+            }
+            const action = await vscode.window.showQuickPick(['Start Runtime From It', 'Export'], { placeHolder: ref });
+            if (action === 'Start Runtime From It') {
+                await confirmStartFromSnapshot(dockerManager, ref);
+            } else if (action === 'Export') {
+                await exportSnapshot(dockerManager, ref);
+            }
+        }),
+        vscode.commands.registerCommand('jupyter-docker.startFromSnapshot', async (node?: RuntimeNode) => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            const ref = node?.kind === 'image'
+                ? getImageRef(node.info)
+                : await pickSnapshot(dockerManager, 'Select a snapshot to start the runtime from');
+            if (ref !== undefined) {
+                await confirmStartFromSnapshot(dockerManager, ref);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('jupyter-docker.exportSnapshot', async (node?: RuntimeNode) => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            const ref = node?.kind === 'image'
+                ? getImageRef(node.info)
+                : await pickSnapshot(dockerManager, 'Select a snapshot to export', false);
+            if (ref) {
+                await exportSnapshot(dockerManager, ref);
+            }
+        }),
+        vscode.commands.registerCommand('jupyter-docker.importSnapshot', async () => {
+            const dockerManager = getActiveRuntime();
+            if (!dockerManager) {
+                return;
+            }
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'Image archives': ['tar'] },
+                openLabel: 'Import Snapshot'
+            });
+            if (!uris || uris.length === 0) {
+                return;
+            }
+
+            const loaded = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Importing snapshot...',
+                cancellable: false
+            }, async () => {
+                try {
+                    return await dockerManager.importSnapshot(uris[0].fsPath);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to import snapshot: ${error}`);
+                    return undefined;
+                }
+            });
+            if (!loaded) {
+                return;
+            }
+            runtimeTree.refresh();
+            if (loaded.length === 0) {
+                vscode.window.showInformationMessage('Snapshot imported');
+                return;
+            }
+            const choice = await vscode.window.showInformationMessage(
+                `Imported ${loaded.join(', ')}`,
+                'Start Runtime From It'
+            );
+            if (choice) {
+                await startFromSnapshot(dockerManager, loaded[0]);
+            }
+        })
+    );
+}
+
+// Resolves to a snapshot reference, '' for the runtime's own image (only offered while
+// a snapshot is active and withRuntimeImage is set), or undefined when cancelled
+async function pickSnapshot(dockerManager: DockerManager, placeHolder: string, withRuntimeImage = true): Promise<string | undefined> {
+    let snapshots: Docker.ImageInfo[];
+    try {
+        snapshots = await dockerManager.listSnapshots();
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to list snapshots: ${error}`);
+        return undefined;
+    }
+    const active = dockerManager.getActiveSnapshot();
+    const items: (vscode.QuickPickItem & { ref: string })[] = snapshots.map((info) => {
+        const ref = getImageRef(info);
+        const created = info.Labels?.[SNAPSHOT_CREATED_LABEL];
+        return {
+            label: ref,
+            description: [
+                new Date(created || info.Created * 1000).toLocaleString(),
+                formatBytes(info.Size),
+                ref === active ? 'active' : undefined
+            ].filter(Boolean).join(' · '),
+            detail: info.Labels?.[SNAPSHOT_LABEL] || undefined,
+            ref
+        };
+    });
+    if (active && withRuntimeImage) {
+        items.push({ label: 'Runtime image', description: 'Go back to the image the runtime builds or pulls', ref: '' });
+    }
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('No snapshots yet. Run "Jupyter Docker: Create Snapshot" first');
+        return undefined;
+    }
+    const choice = await vscode.window.showQuickPick(items, { placeHolder, matchOnDetail: true });
+    return choice?.ref;
+}
+
+async function confirmStartFromSnapshot(dockerManager: DockerManager, ref: string) {
+    const choice = await vscode.window.showWarningMessage(
+        ref
+            ? `Start the runtime from snapshot ${ref}? Its container is replaced, and running kernels are stopped.`
+            : 'Start the runtime from its own image again? Its container is replaced, and running kernels are stopped.',
+        { modal: true },
+        'Start'
+    );
+    if (choice === 'Start') {
+        await startFromSnapshot(dockerManager, ref);
+    }
+}
+
+async function exportSnapshot(dockerManager: DockerManager, ref: string) {
+    const defaultName = `${ref.replace(/^.*\//, '').replace(/[:]/g, '-')}.tar`;
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, defaultName) : undefined,
+        filters: { 'Image archives': ['tar'] },
+        saveLabel: 'Export Snapshot'
+    });
+    if (!uri) {
+        return;
+    }
+
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Exporting ${ref}...`,
+        cancellable: false
+    }, async (progress) => {
+        try {
+            await dockerManager.exportSnapshot(ref, uri.fsPath, (bytes) => {
+                progress.report({ message: `${formatBytes(bytes)} written` });
+            });
+            vscode.window.showInformationMessage(`Snapshot exported to ${uri.fsPath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export snapshot: ${error}`);
+        }
+    });
+}
+
+async function startFromSnapshot(dockerManager: DockerManager, ref: string) {
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: ref ? `Starting runtime from ${ref}...` : 'Starting runtime from its image...',
+        cancellable: false
+    }, async (progress) => {
+        try {
+            kernelProvider.shutdownKernels(dockerManager);
+            await dockerManager.startFromSnapshot(ref || undefined, progress);
+            await kernelProvider.refreshKernelspecs(dockerManager);
+            vscode.window.showInformationMessage(ref ? `Runtime started from snapshot ${ref}` : 'Runtime started from its image');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to start from snapshot: ${error}`);
+        }
+    });
+    runtimeTree.refresh();
+    packagesTree.refresh();
+    await updateSandboxStatus();
+}
+
+// Goes back to the environment recorded in a notebook: its image while the engine still
+// has it, otherwise a rebuild followed by the recorded package versions
+async function restoreEnvironment(dockerManager: DockerManager, recorded: EnvironmentRecord, useImage: boolean) {
+    if (useImage) {
+        await startFromSnapshot(dockerManager, recorded.imageId);
+        return;
+    }
+    await rebuildRuntime(dockerManager);
+    if (!(await dockerManager.isContainerRunning())) {
+        return;
+    }
+    let pins: string[];
+    try {
+        const installed = await new PackageManager(dockerManager).list();
+        pins = getPackagesToRestore(recorded, installed.map((info) => `${info.name}==${info.version}`));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to list packages: ${error}`);
+        return;
+    }
+    if (pins.length > 0) {
+        await runPackageOperation(
+            `Installing ${pins.length} recorded package${pins.length === 1 ? '' : 's'}`,
+            (onOutput) => new PackageManager(dockerManager).install(pins, onOutput)
+        );
+        packagesTree.refresh();
+    }
+}
+
+// A tag of the image when it has one, its id otherwise
+function getImageRef(info: Docker.ImageInfo): string {
+    return info.RepoTags?.find((repoTag) => repoTag !== '<none>:<none>') || info.Id;
+}
+
+function getPortNode(node: RuntimeNode | undefined) {
+    return node?.kind === 'port' ? node : undefined;
+}
+
+function getContainerNode(node: RuntimeNode | undefined): ContainerInfo | undefined {
+    return node?.kind === 'container' ? node.info : undefined;
+}
+
+function getContainerLabel(info: ContainerInfo): string {
+    return info.Names[0]?.replace(/^\//, '') || info.Id.slice(0, 12);
+}
+
+// The engine the view lists, i.e. the active runtime's
+async function getViewRuntime() {
+    const dockerManager = getActiveRuntime();
+    return dockerManager ? dockerManager.getRuntime() : undefined;
+}
+
+async function rebuildRuntime(dockerManager: DockerManager) {
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: "Rebuilding Docker container...",
+        cancellable: false
+    }, async (progress) => {
+        try {
+            kernelProvider.shutdownKernels(dockerManager);
+            await dockerManager.rebuildContainer(progress);
+            vscode.window.showInformationMessage('Container rebuilt successfully');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to rebuild container: ${error}`);
+        }
+    });
+    await updateSandboxStatus();
+}
+
+function getActiveRuntime(): DockerManager | undefined {
+    const dockerManager = runtimes.getActive();
+    if (!dockerManager) {
+        vscode.window.showWarningMessage('Open a Jupyter notebook or a workspace folder first');
+    }
+    return dockerManager;
+}
+
+function getActiveNotebook(): vscode.NotebookDocument | undefined {
+    const notebook = vscode.window.activeNotebookEditor?.notebook;
+    if (!notebook || notebook.notebookType !== 'jupyter-notebook') {
+        vscode.window.showWarningMessage('Open a Jupyter notebook first');
+        return undefined;
+    }
+    return notebook;
+}
+
+async function ensureContainerRunning(dockerManager: DockerManager) {
     try {
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
@@ -99,21 +1108,73 @@ async function ensureContainerRunning() {
             const isRunning = await dockerManager.isContainerRunning();
             if (!isRunning) {
                 progress.report({ message: "Building container image..." });
-                await dockerManager.ensureContainer();
+                await dockerManager.ensureContainer(progress);
                 
                 progress.report({ message: "Installing Jupyter kernel..." });
                 await dockerManager.setupKernel();
+                await kernelProvider.refreshKernelspecs(dockerManager);
+                packagesTree.refresh();
                 
-                vscode.window.showInformationMessage('Jupyter Docker runtime ready!');
+                vscode.window.showInformationMessage(dockerManager.isRemoteEngine()
+                    ? `Jupyter Docker runtime ready on ${dockerManager.getEngineDescription()}`
+                    : 'Jupyter Docker runtime ready!');
             }
         });
+        await updateSandboxStatus();
     } catch (error) {
         vscode.window.showErrorMessage(`Failed to start container: ${error}`);
     }
 }
 
-export function deactivate() {
-    if (dockerManager) {
-        dockerManager.dispose();
+async function updateStatsStatus() {
+    const notebook = vscode.window.activeNotebookEditor?.notebook;
+    const dockerManager = notebook?.notebookType === 'jupyter-notebook' ? runtimes.getForNotebook(notebook.uri) : undefined;
+    if (!dockerManager) {
+        statsStatusItem.hide();
+        return;
+    }
+
+    try {
+        const stats = await dockerManager.getStats();
+        if (!stats) {
+            statsStatusItem.hide();
+            return;
+        }
+        statsStatusItem.text = `$(pulse) ${stats.cpuPercent.toFixed(0)}% CPU  ${formatBytes(stats.memoryUsage)} / ${formatBytes(stats.memoryLimit)}`;
+        statsStatusItem.tooltip = 'CPU and memory use of the notebook container';
+        statsStatusItem.show();
+    } catch (error) {
+        // The container stopped or the engine is unreachable
+        statsStatusItem.hide();
+    }
+}
+
+async function updateSandboxStatus() {
+    const notebook = vscode.window.activeNotebookEditor?.notebook;
+    if (!notebook || notebook.notebookType !== 'jupyter-notebook') {
+        sandboxStatusItem.hide();
+        return;
+    }
+
+    let protections: string[];
+    try {
+        protections = await runtimes.getForNotebook(notebook.uri).getSandboxProtections();
+    } catch (error) {
+        protections = [];
+    }
+
+    if (protections.length === 0) {
+        sandboxStatusItem.hide();
+        return;
+    }
+    sandboxStatusItem.tooltip = `Notebook container: ${protections.join(', ')}`;
+    sandboxStatusItem.show();
+}
+
+// Runtimes are disposed here rather than through context.subscriptions, so VS Code
+// waits for their lifecycle policies
+export async function deactivate() {
+    if (runtimes) {
+        await runtimes.dispose();
     }
 }
\ No newline at end of file
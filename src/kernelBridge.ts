@@ -0,0 +1,157 @@
+// Script uploaded into the container and run through `docker exec`. It starts an
+// ipykernel through jupyter_client (connection file, shell/iopub/control/stdin
+// channels) and relays kernel messages as JSON lines over the exec's stdin/stdout,
+// so the extension never needs to reach the kernel's ZeroMQ ports directly.
+export const KERNEL_BRIDGE_PATH = '/tmp/kernel_bridge.py';
+
+export const KERNEL_BRIDGE_SCRIPT = `
+import json
+import os
+import sys
+import threading
+from queue import Empty
+
+from jupyter_client.manager import KernelManager
+
+write_lock = threading.Lock()
+# Held while the kernel process is replaced or stopped, so the watcher never
+# mistakes a restart for a crash
+kernel_lock = threading.Lock()
+stopping = threading.Event()
+
+
+def emit(message):
+    line = json.dumps(message, default=str)
+    with write_lock:
+        sys.stdout.write(line + '\\n')
+        sys.stdout.flush()
+
+
+def pump(name, channel):
+    """Forward every message received on a kernel channel"""
+    while not stopping.is_set():
+        try:
+            msg = channel.get_msg(timeout=0.2)
+        except Empty:
+            continue
+        except Exception:
+            if stopping.is_set():
+                return
+            continue
+        emit({
+            'channel': name,
+            'header': msg['header'],
+            'parent_header': msg['parent_header'],
+            'metadata': msg['metadata'],
+            'content': msg['content']
+        })
+
+
+def kernel_process(km):
+    # jupyter_client 7+ keeps the Popen on the provisioner, older versions on km.kernel
+    provisioner = getattr(km, 'provisioner', None)
+    if provisioner is not None:
+        return getattr(provisioner, 'process', None)
+    return getattr(km, 'kernel', None)
+
+
+def watch(km):
+    """Report a kernel process that exits on its own, e.g. killed by the OOM killer"""
+    reported = None
+    while not stopping.wait(1):
+        with kernel_lock:
+            process = kernel_process(km)
+            if process is None or process is reported:
+                continue
+            exit_code = process.poll()
+            if exit_code is not None:
+                reported = process
+                emit({'channel': 'bridge', 'event': 'died', 'exit_code': exit_code})
+
+
+def main():
+    kernel_name = sys.argv[1] if len(sys.argv) > 1 else 'docker-python'
+    cwd = sys.argv[2] if len(sys.argv) > 2 and os.path.isdir(sys.argv[2]) else None
+    km = KernelManager(kernel_name=kernel_name)
+
+    try:
+        km.start_kernel(cwd=cwd)
+        kc = km.client()
+        kc.start_channels()
+        kc.wait_for_ready(timeout=60)
+    except Exception as e:
+        emit({'channel': 'bridge', 'event': 'error', 'error': str(e)})
+        try:
+            km.shutdown_kernel(now=True)
+        except Exception:
+            pass
+        return 1
+
+    channels = {
+        'shell': kc.shell_channel,
+        'iopub': kc.iopub_channel,
+        'control': kc.control_channel,
+        'stdin': kc.stdin_channel
+    }
+
+    for name, channel in channels.items():
+        threading.Thread(target=pump, args=(name, channel), daemon=True).start()
+    threading.Thread(target=watch, args=(km,), daemon=True).start()
+
+    emit({
+        'channel': 'bridge',
+        'event': 'ready',
+        'kernel_name': kernel_name,
+        'connection_file': km.connection_file,
+        'ports': [km.shell_port, km.iopub_port, km.stdin_port, km.control_port, km.hb_port]
+    })
+
+    while True:
+        line = sys.stdin.readline()
+        if not line:
+            break
+        line = line.strip()
+        if not line:
+            continue
+
+        try:
+            request = json.loads(line)
+        except ValueError:
+            continue
+
+        command = request.get('command', 'send')
+        if command == 'send':
+            # Replies on the stdin channel name the input_request they answer
+            msg = kc.session.msg(request['msg_type'], request.get('content', {}), parent=request.get('parent_header'))
+            msg['header']['msg_id'] = request['msg_id']
+            msg['msg_id'] = request['msg_id']
+            channels[request['channel']].send(msg)
+        elif command == 'interrupt':
+            # Delivers SIGINT to the kernel process (or an interrupt_request for
+            # kernelspecs that declare interrupt_mode "message")
+            km.interrupt_kernel()
+        elif command == 'restart':
+            try:
+                # The new kernel process inherits the bridge's environment, so
+                # secrets changed since the start are applied to it first
+                for name in request.get('unset', []):
+                    os.environ.pop(name, None)
+                os.environ.update(request.get('env', {}))
+                with kernel_lock:
+                    km.restart_kernel(now=True)
+                emit({'channel': 'bridge', 'event': 'restarted'})
+            except Exception as e:
+                emit({'channel': 'bridge', 'event': 'error', 'error': str(e)})
+        elif command == 'shutdown':
+            break
+
+    stopping.set()
+    kc.stop_channels()
+    with kernel_lock:
+        km.shutdown_kernel(now=True)
+    return 0
+
+
+if __name__ == '__main__':
+    sys.exit(main())
+`;
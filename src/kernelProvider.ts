@@ -1,248 +1,574 @@
 import * as vscode from 'vscode';
-import { DockerManager } from './dockerManager';
+import * as path from 'path';
+import { DEFAULT_KERNELSPEC, DockerManager, KernelSpecInfo } from './dockerManager';
+import { RuntimeRegistry } from './runtimeRegistry';
+import { KernelDiedError, KernelMessage, KernelSession } from './kernelSession';
+import { CellOutputWriter } from './cellOutput';
+import { RAW_LANGUAGE, assignCellIds, parseNotebook, serializeNotebook, toLanguageId } from './nbformat';
+import { SecretStore } from './secrets';
+import { ForwardedPort, PortForwardMode, PortForwarder } from './portForwarder';
+import { CellInstall, parseCellInstalls } from './packages';
+
+// The docker-python controller keeps the id earlier versions registered, so
+// VS Code's remembered kernel choice for existing notebooks still applies
+const DEFAULT_CONTROLLER_ID = 'jupyter-docker-kernel';
+
+// Kernelspecs seen in this workspace's containers, so their controllers exist
+// before a container has started
+const KNOWN_KERNELSPECS_KEY = 'jupyterDocker.kernelspecs';
+
+interface QueuedCell {
+    cell: vscode.NotebookCell;
+    execution: vscode.NotebookCellExecution;
+    state: 'queued' | 'running' | 'cancelled';
+}
+
+interface KernelController {
+    controller: vscode.NotebookController;
+    spec: KernelSpecInfo;
+}
 
 export class DockerKernelProvider implements vscode.NotebookSerializer {
-    private controller: vscode.NotebookController;
+    // One controller per kernelspec, keyed by kernelspec name
+    private controllers = new Map<string, KernelController>();
+    private sessions = new Map<string, KernelSession>();
+    private queues = new Map<string, QueuedCell[]>();
+    private runs = new Map<string, Promise<void>>();
+    private secrets: SecretStore;
+    // One port forwarder per runtime, alive while a kernel runs in its container
+    private forwarders = new Map<DockerManager, PortForwarder>();
+    // Notebook that last ran a cell in each runtime, which servers found by polling belong to
+    private lastExecuted = new Map<DockerManager, string>();
+    private readonly onDidChangeForwardedPortsEmitter = new vscode.EventEmitter<void>();
+    private readonly onDidRunCellEmitter = new vscode.EventEmitter<DockerManager>();
+    private readonly onDidInstallPackagesEmitter = new vscode.EventEmitter<{ runtime: DockerManager; installs: CellInstall[] }>();
+    private readonly onDidStartKernelEmitter = new vscode.EventEmitter<{ notebook: vscode.NotebookDocument; session: KernelSession }>();
+
+    readonly onDidChangeForwardedPorts = this.onDidChangeForwardedPortsEmitter.event;
+    // Fires with the runtime when one of its cells starts or finishes running
+    readonly onDidRunCell = this.onDidRunCellEmitter.event;
+    // Fires after a cell with %pip install (or !pip, %conda, ...) ran successfully
+    readonly onDidInstallPackages = this.onDidInstallPackagesEmitter.event;
+    // Fires when a notebook's kernel process started, before its first cell runs
+    readonly onDidStartKernel = this.onDidStartKernelEmitter.event;
     
     constructor(
-        private dockerManager: DockerManager,
+        private runtimes: RuntimeRegistry,
         private context: vscode.ExtensionContext
     ) {
-        // Create notebook controller
-        this.controller = vscode.notebooks.createNotebookController(
-            'jupyter-docker-kernel',
+        this.secrets = new SecretStore(context);
+
+        const knownSpecs = context.workspaceState.get<KernelSpecInfo[]>(KNOWN_KERNELSPECS_KEY, []);
+        for (const spec of [DEFAULT_KERNELSPEC, ...knownSpecs]) {
+            this.ensureController(spec);
+        }
+
+        // The kernel lives as long as its notebook is open
+        context.subscriptions.push(
+            vscode.workspace.onDidOpenNotebookDocument((notebook) => this.preferSavedKernel(notebook)),
+            vscode.workspace.onDidCloseNotebookDocument((notebook) => {
+                this.disposeSession(notebook);
+            }),
+            vscode.workspace.onDidChangeNotebookDocument((event) => this.assignCellIds(event)),
+            { dispose: () => this.sessions.forEach((session) => session.dispose()) },
+            { dispose: () => this.forwarders.forEach((forwarder) => forwarder.dispose()) },
+            this.onDidChangeForwardedPortsEmitter,
+            this.onDidRunCellEmitter,
+            this.onDidInstallPackagesEmitter,
+            this.onDidStartKernelEmitter,
+            { dispose: () => this.controllers.forEach(({ controller }) => controller.dispose()) }
+        );
+        vscode.workspace.notebookDocuments.forEach((notebook) => this.preferSavedKernel(notebook));
+    }
+
+    // Creates the controller for a kernelspec, or updates its label when the
+    // container reports a different display name
+    private ensureController(spec: KernelSpecInfo): vscode.NotebookController {
+        const existing = this.controllers.get(spec.name);
+        if (existing) {
+            existing.spec = spec;
+            existing.controller.label = spec.displayName;
+            existing.controller.supportedLanguages = [toLanguageId(spec.language)];
+            return existing.controller;
+        }
+
+        const id = spec.name === DEFAULT_KERNELSPEC.name ? DEFAULT_CONTROLLER_ID : `${DEFAULT_CONTROLLER_ID}.${spec.name}`;
+        const entry = { spec } as KernelController;
+        const controller = vscode.notebooks.createNotebookController(
+            id,
             'jupyter-notebook',
-            'Python (Docker)',
-            this.executeHandler.bind(this)
+            spec.displayName,
+            (cells, notebook) => this.executeHandler(cells, notebook, entry)
         );
+        entry.controller = controller;
 
-        this.controller.supportedLanguages = ['python'];
-        this.controller.supportsExecutionOrder = true;
-        this.controller.description = 'Run Python code in Docker container';
+        controller.supportedLanguages = [toLanguageId(spec.language)];
+        controller.supportsExecutionOrder = true;
+        controller.description = `Run ${spec.language} code in Docker container`;
+        controller.detail = `Kernelspec ${spec.name}`;
+        controller.interruptHandler = (notebook) => this.interruptKernel(notebook);
+        controller.onDidChangeSelectedNotebooks(({ notebook, selected }) => {
+            if (selected) {
+                this.applyKernelspec(notebook, entry.spec);
+            }
+        });
 
-        context.subscriptions.push(this.controller);
+        this.controllers.set(spec.name, entry);
+        return controller;
     }
 
-    async deserializeNotebook(
-        content: Uint8Array,
-        _token: vscode.CancellationToken
-    ): Promise<vscode.NotebookData> {
-        try {
-            const contents = new TextDecoder().decode(content);
-            const notebook = JSON.parse(contents);
+    // New and pasted cells get their own id right away, so it stays the same on every save
+    private async assignCellIds(event: vscode.NotebookDocumentChangeEvent): Promise<void> {
+        const added = event.contentChanges.flatMap((change) => change.addedCells);
+        if (event.notebook.notebookType !== 'jupyter-notebook' || added.length === 0) {
+            return;
+        }
+        const edits = assignCellIds(event.notebook, added);
+        if (edits.length > 0) {
+            const edit = new vscode.WorkspaceEdit();
+            edit.set(event.notebook.uri, edits);
+            await vscode.workspace.applyEdit(edit);
+        }
+    }
 
-            const cells = (notebook.cells || []).map((cell: any) => {
-                const cellKind = cell.cell_type === 'code'
-                    ? vscode.NotebookCellKind.Code
-                    : vscode.NotebookCellKind.Markup;
+    // Points VS Code at the controller of the kernelspec the notebook was saved with
+    private preferSavedKernel(notebook: vscode.NotebookDocument): void {
+        const kernelspec = notebook.metadata?.kernelspec;
+        if (notebook.notebookType !== 'jupyter-notebook' || !kernelspec?.name) {
+            return;
+        }
+        // A kernelspec not seen in a container yet gets a controller from the notebook's
+        // own description; starting it fails clearly if the container lacks it
+        const controller = this.controllers.get(kernelspec.name)?.controller ?? this.ensureController({
+            name: kernelspec.name,
+            displayName: kernelspec.display_name || kernelspec.name,
+            language: kernelspec.language || notebook.metadata.language_info?.name || 'python'
+        });
+        controller.updateNotebookAffinity(notebook, vscode.NotebookControllerAffinity.Preferred);
+    }
 
-                const cellData = new vscode.NotebookCellData(
-                    cellKind,
-                    Array.isArray(cell.source) ? cell.source.join('') : cell.source,
-                    cell.cell_type === 'code' ? 'python' : 'markdown'
-                );
+    // Records the chosen kernelspec in the notebook metadata (written on save) and
+    // switches code cells to the kernel's language; raw cells stay raw
+    private async applyKernelspec(notebook: vscode.NotebookDocument, spec: KernelSpecInfo): Promise<void> {
+        const languageId = toLanguageId(spec.language);
+        for (const cell of notebook.getCells()) {
+            if (cell.kind === vscode.NotebookCellKind.Code
+                && cell.document.languageId !== RAW_LANGUAGE
+                && cell.document.languageId !== languageId) {
+                await vscode.languages.setTextDocumentLanguage(cell.document, languageId);
+            }
+        }
 
-                cellData.outputs = (cell.outputs || []).map((output: any) => 
-                    this.deserializeOutput(output)
-                );
+        if (notebook.metadata?.kernelspec?.name === spec.name) {
+            return;
+        }
+        const languageInfo = notebook.metadata?.language_info;
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(notebook.uri, [vscode.NotebookEdit.updateNotebookMetadata({
+            ...notebook.metadata,
+            kernelspec: { display_name: spec.displayName, language: spec.language, name: spec.name },
+            // language_info describes the previous kernel's language; keep it only if that still
+            // matches. The kernel's own language_info replaces it once the kernel starts
+            language_info: languageInfo?.name?.toLowerCase() === spec.language.toLowerCase()
+                ? languageInfo
+                : { name: spec.language.toLowerCase() }
+        })]);
+        await vscode.workspace.applyEdit(edit);
+    }
 
-                cellData.executionSummary = cell.execution_count
-                    ? { executionOrder: cell.execution_count }
-                    : undefined;
+    // Creates controllers for the kernelspecs installed in a running container
+    async refreshKernelspecs(runtime: DockerManager): Promise<KernelSpecInfo[]> {
+        const specs = await runtime.listAvailableKernels();
+        specs.forEach((spec) => this.ensureController(spec));
 
-                return cellData;
-            });
+        const known = new Map(this.context.workspaceState.get<KernelSpecInfo[]>(KNOWN_KERNELSPECS_KEY, [])
+            .map((spec) => [spec.name, spec]));
+        specs.forEach((spec) => known.set(spec.name, spec));
+        await this.context.workspaceState.update(KNOWN_KERNELSPECS_KEY, [...known.values()]);
+        return specs;
+    }
 
-            return new vscode.NotebookData(cells);
-        } catch (error) {
-            console.error('Error deserializing notebook:', error);
-            return new vscode.NotebookData([]);
-        }
-    }
-
-    async serializeNotebook(
-        data: vscode.NotebookData,
-        _token: vscode.CancellationToken
-    ): Promise<Uint8Array> {
-        const notebook = {
-            cells: data.cells.map((cell) => ({
-                cell_type: cell.kind === vscode.NotebookCellKind.Code ? 'code' : 'markdown',
-                source: cell.value.split('\n').map(line => line + '\n'),
-                metadata: {},
-                outputs: cell.outputs?.map(output => this.serializeOutput(output)) || [],
-                execution_count: cell.executionSummary?.executionOrder || null
-            })),
-            metadata: {
-                kernelspec: {
-                    display_name: 'Python (Docker)',
-                    language: 'python',
-                    name: 'docker-python'
-                },
-                language_info: {
-                    name: 'python',
-                    version: '3.11'
-                }
-            },
-            nbformat: 4,
-            nbformat_minor: 4
-        };
+    // Makes a kernelspec the active notebook's kernel
+    async selectKernel(spec: KernelSpecInfo): Promise<void> {
+        const controller = this.ensureController(spec);
+        await vscode.commands.executeCommand('notebook.selectKernel', {
+            id: controller.id,
+            extension: this.context.extension.id
+        });
+    }
+
+    async deserializeNotebook(content: Uint8Array): Promise<vscode.NotebookData> {
+        return parseNotebook(content);
+    }
 
-        return new TextEncoder().encode(JSON.stringify(notebook, null, 2));
+    async serializeNotebook(data: vscode.NotebookData): Promise<Uint8Array> {
+        // Secret values printed by cells stay visible in the editor but never reach the file
+        return serializeNotebook(data, await this.secrets.getScrubber());
     }
 
     private async executeHandler(
         cells: vscode.NotebookCell[],
-        _notebook: vscode.NotebookDocument,
-        _controller: vscode.NotebookController
+        notebook: vscode.NotebookDocument,
+        kernel: KernelController
     ): Promise<void> {
-        for (const cell of cells) {
-            await this.executeCell(cell);
-        }
+        const key = notebook.uri.toString();
+
+        // Raw cells are code cells only so they can hold verbatim text; they never run
+        const runnable = cells.filter((cell) => cell.document.languageId !== RAW_LANGUAGE);
+
+        // Create every execution up front so the cells show as queued
+        const queued: QueuedCell[] = runnable.map((cell) => {
+            const entry: QueuedCell = {
+                cell,
+                execution: kernel.controller.createNotebookCellExecution(cell),
+                state: 'queued'
+            };
+            entry.execution.token.onCancellationRequested(() => this.cancelCell(notebook, entry));
+            return entry;
+        });
+
+        const queue = this.queues.get(key) || [];
+        queue.push(...queued);
+        this.queues.set(key, queue);
+
+        // Runs for the same notebook are serialized behind each other; one that failed
+        // must not keep the later ones from starting
+        const previous = (this.runs.get(key) || Promise.resolve()).catch(() => undefined);
+        const run = previous.then(async () => {
+            for (const entry of queued) {
+                if (entry.state !== 'queued') {
+                    continue;
+                }
+                entry.state = 'running';
+                const success = await this.executeCell(entry, kernel.spec).catch((error) => {
+                    console.error('Failed to run cell:', error);
+                    return false;
+                });
+                this.dequeue(key, entry);
+
+                if (!success) {
+                    // Like Jupyter, a failing cell stops the rest of the run
+                    this.dropQueuedCells(notebook);
+                }
+            }
+        });
+        this.runs.set(key, run);
+        await run;
     }
 
-    private async executeCell(cell: vscode.NotebookCell): Promise<void> {
-        const execution = this.controller.createNotebookCellExecution(cell);
-        execution.start(Date.now());
+    private async executeCell(entry: QueuedCell, spec: KernelSpecInfo): Promise<boolean> {
+        const { cell, execution } = entry;
+        const runtime = this.runtimes.getForNotebook(cell.notebook.uri);
+        this.onDidRunCellEmitter.fire(runtime);
 
+        let timeout: NodeJS.Timeout | undefined;
         try {
+            execution.start(Date.now());
             const code = cell.document.getText();
             
             if (!code.trim()) {
                 execution.end(true, Date.now());
-                return;
+                return true;
             }
 
-            // Ensure container is running
-            const isRunning = await this.dockerManager.isContainerRunning();
-            if (!isRunning) {
-                await vscode.window.withProgress({
-                    location: vscode.ProgressLocation.Notification,
-                    title: "Starting Docker container...",
-                    cancellable: false
-                }, async () => {
-                    await this.dockerManager.ensureContainer();
-                    await this.dockerManager.setupKernel();
-                });
+            const session = await this.getSession(cell.notebook, spec);
+            if (entry.state === 'cancelled') {
+                execution.end(undefined);
+                return false;
             }
 
-            // Execute code in container
-            const result = await this.dockerManager.executeCode(code);
-
             // Clear existing outputs
-            execution.clearOutput(cell);
-
-            // Handle output
-            if (result.status === 'ok') {
-                if (result.output) {
-                    const output = new vscode.NotebookCellOutput([
-                        vscode.NotebookCellOutputItem.text(result.output, 'text/plain')
-                    ]);
-                    execution.appendOutput(output);
+            await execution.clearOutput(cell);
+
+            const notebookKey = cell.notebook.uri.toString();
+            const forwarder = this.forwarders.get(session.dockerManager);
+            this.lastExecuted.set(session.dockerManager, notebookKey);
+
+            const timeoutSeconds = vscode.workspace.getConfiguration('jupyterDocker', cell.notebook.uri).get<number>('cellTimeout', 0);
+            let timedOut = false;
+            if (timeoutSeconds > 0) {
+                timeout = setTimeout(() => {
+                    timedOut = true;
+                    session.interrupt();
+                }, timeoutSeconds * 1000);
+            }
+
+            const writer = new CellOutputWriter(execution);
+            const reply = await session.execute(code, (msg: KernelMessage) => {
+                if (msg.header.msg_type === 'execute_input') {
+                    execution.executionOrder = msg.content.execution_count ?? undefined;
+                } else if (msg.header.msg_type === 'input_request') {
+                    this.promptForInput(entry, session, writer, msg).catch((error) => {
+                        vscode.window.showErrorMessage(`Failed to send input to the kernel: ${error}`);
+                        // The kernel waits on stdin until it gets a reply; an interrupt
+                        // raises KeyboardInterrupt in input() instead
+                        if (entry.state === 'running') {
+                            this.interruptKernel(entry.cell.notebook);
+                        }
+                    });
+                } else {
+                    writer.handle(msg);
+                    forwarder?.handleOutput(getOutputText(msg), notebookKey);
                 }
-                execution.end(true, Date.now());
-            } else {
-                // Error occurred
-                const errorOutput = new vscode.NotebookCellOutput([
+            });
+            await writer.flush();
+
+            if (reply.execution_count !== null) {
+                execution.executionOrder = reply.execution_count;
+            }
+
+            if (timedOut) {
+                await execution.appendOutput(new vscode.NotebookCellOutput([
                     vscode.NotebookCellOutputItem.error({
-                        name: 'ExecutionError',
-                        message: result.error
+                        name: 'TimeoutError',
+                        message: `Cell execution timed out after ${timeoutSeconds} seconds and was interrupted`
                     })
-                ]);
-                execution.appendOutput(errorOutput);
-                execution.end(false, Date.now());
+                ]));
+            }
+
+            // Errors are rendered from the kernel's iopub error message
+            const success = reply.status === 'ok';
+            const installs = success ? parseCellInstalls(code) : [];
+            if (installs.length > 0) {
+                this.onDidInstallPackagesEmitter.fire({ runtime: session.dockerManager, installs });
             }
+            execution.end(success, Date.now());
+            return success;
 
         } catch (error) {
             const errorOutput = new vscode.NotebookCellOutput([
-                vscode.NotebookCellOutputItem.error({
-                    name: 'ExecutionError',
-                    message: String(error)
-                })
+                vscode.NotebookCellOutputItem.error(await this.describeFailure(cell.notebook, error))
             ]);
             execution.appendOutput(errorOutput);
             execution.end(false, Date.now());
+            return false;
+        } finally {
+            if (timeout) {
+                clearTimeout(timeout);
+            }
+            this.onDidRunCellEmitter.fire(runtime);
         }
     }
 
-    private deserializeOutput(output: any): vscode.NotebookCellOutput {
-        const items: vscode.NotebookCellOutputItem[] = [];
+    // Asks the user for the value the cell is waiting on. Dismissing the prompt
+    // interrupts the cell, which raises KeyboardInterrupt in input()
+    private async promptForInput(entry: QueuedCell, session: KernelSession, writer: CellOutputWriter, msg: KernelMessage): Promise<void> {
+        const prompt: string = msg.content.prompt || '';
+        const password = !!msg.content.password;
+        const value = await vscode.window.showInputBox({
+            title: `Cell ${entry.cell.index + 1} is waiting for input`,
+            prompt: prompt.trim() || undefined,
+            password,
+            ignoreFocusOut: true
+        }, entry.execution.token);
 
-        if (output.output_type === 'stream') {
-            const text = Array.isArray(output.text) 
-                ? output.text.join('') 
-                : output.text;
-            items.push(vscode.NotebookCellOutputItem.text(text, 'text/plain'));
-        } else if (output.output_type === 'execute_result' || output.output_type === 'display_data') {
-            const data = output.data || {};
-            
-            if (data['text/plain']) {
-                const text = Array.isArray(data['text/plain'])
-                    ? data['text/plain'].join('')
-                    : data['text/plain'];
-                items.push(vscode.NotebookCellOutputItem.text(text, 'text/plain'));
+        if (value === undefined) {
+            if (entry.state === 'running') {
+                this.interruptKernel(entry.cell.notebook);
             }
-            
-            if (data['text/html']) {
-                const html = Array.isArray(data['text/html'])
-                    ? data['text/html'].join('')
-                    : data['text/html'];
-                items.push(vscode.NotebookCellOutputItem.text(html, 'text/html'));
+            return;
+        }
+        writer.echoInput(prompt, password ? '' : value);
+        session.replyToInput(value, msg);
+    }
+
+    // Explains a kernel that died mid-cell, in particular an out-of-memory kill
+    private async describeFailure(notebook: vscode.NotebookDocument, error: unknown): Promise<{ name: string; message: string }> {
+        const runtime = this.runtimes.getForNotebook(notebook.uri);
+        const killed = error instanceof KernelDiedError
+            ? error.exitCode === -9
+            : error instanceof Error && error.message === 'Kernel exited';
+
+        if (killed && await runtime.wasOomKilled()) {
+            const limit = vscode.workspace.getConfiguration('jupyterDocker', notebook.uri).get<string>('memory', '');
+            return {
+                name: 'OutOfMemoryError',
+                message: `The kernel was killed because the container ran out of memory${limit ? ` (limit ${limit})` : ''}. ` +
+                    'Free memory in the notebook or raise jupyterDocker.memory, then run the cell again to start a new kernel.'
+            };
+        }
+        if (error instanceof KernelDiedError) {
+            return { name: error.name, message: `${error.message}. Run the cell again to start a new kernel.` };
+        }
+        return { name: 'ExecutionError', message: String(error) };
+    }
+
+    private cancelCell(notebook: vscode.NotebookDocument, entry: QueuedCell): void {
+        if (entry.state === 'queued') {
+            entry.state = 'cancelled';
+            entry.execution.end(undefined);
+            this.dequeue(notebook.uri.toString(), entry);
+        } else if (entry.state === 'running') {
+            entry.state = 'cancelled';
+            this.sessions.get(notebook.uri.toString())?.interrupt();
+        }
+    }
+
+    private dropQueuedCells(notebook: vscode.NotebookDocument): void {
+        const queue = this.queues.get(notebook.uri.toString()) || [];
+        for (const entry of [...queue]) {
+            if (entry.state === 'queued') {
+                this.cancelCell(notebook, entry);
             }
-            
-            if (data['image/png']) {
-                const buffer = Buffer.from(data['image/png'], 'base64');
-                items.push(vscode.NotebookCellOutputItem.text(
-                    buffer.toString('base64'),
-                    'image/png'
-                ));
+        }
+    }
+
+    private dequeue(key: string, entry: QueuedCell): void {
+        const queue = this.queues.get(key);
+        const index = queue ? queue.indexOf(entry) : -1;
+        if (queue && index !== -1) {
+            queue.splice(index, 1);
+        }
+    }
+
+    interruptKernel(notebook: vscode.NotebookDocument): void {
+        // Interrupting stops the running cell and everything queued behind it
+        this.dropQueuedCells(notebook);
+        this.sessions.get(notebook.uri.toString())?.interrupt();
+    }
+
+    async restartKernel(notebook: vscode.NotebookDocument): Promise<void> {
+        const session = this.sessions.get(notebook.uri.toString());
+        if (!session?.isAlive) {
+            vscode.window.showInformationMessage('No kernel is running for this notebook');
+            return;
+        }
+
+        this.dropQueuedCells(notebook);
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Restarting kernel...",
+            cancellable: false
+        }, () => session.restart());
+    }
+
+    private async getSession(notebook: vscode.NotebookDocument, spec: KernelSpecInfo): Promise<KernelSession> {
+        const key = notebook.uri.toString();
+        const runtime = this.runtimes.getForNotebook(notebook.uri);
+        const existing = this.sessions.get(key);
+        // Switching kernels or runtimes starts a fresh kernel
+        if (existing?.isAlive && existing.dockerManager === runtime && existing.kernelName === spec.name) {
+            return existing;
+        }
+        existing?.dispose();
+
+        // Ensure container is running
+        const isRunning = await runtime.isContainerRunning();
+        if (!isRunning) {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: "Starting Docker container...",
+                cancellable: false
+            }, async (progress) => {
+                await runtime.ensureContainer(progress);
+                await runtime.setupKernel();
+            });
+            await this.refreshKernelspecs(runtime);
+        }
+
+        // Start the kernel in the notebook's own directory when it is mounted
+        const cwd = runtime.toContainerPath(path.dirname(notebook.uri.fsPath));
+        const session = new KernelSession(runtime, spec.name, cwd);
+        this.sessions.set(key, session);
+        session.onDidExit(() => {
+            if (this.sessions.get(key) === session) {
+                this.sessions.delete(key);
             }
-        } else if (output.output_type === 'error') {
-            items.push(vscode.NotebookCellOutputItem.error({
-                name: output.ename || 'Error',
-                message: output.evalue || 'Unknown error',
-                stack: (output.traceback || []).join('\n')
-            }));
+            this.stopPortForwarding(runtime, key);
+        });
+
+        try {
+            await session.start();
+        } catch (error) {
+            session.dispose();
+            throw error;
         }
+        this.startPortForwarding(runtime, notebook);
+        this.onDidStartKernelEmitter.fire({ notebook, session });
+        return session;
+    }
 
-        return new vscode.NotebookCellOutput(items);
+    // Whether a notebook in this runtime has a cell running or waiting to run
+    hasPendingCells(runtime: DockerManager): boolean {
+        return Array.from(this.queues).some(([key, queue]) =>
+            queue.length > 0 && this.sessions.get(key)?.dockerManager === runtime);
     }
 
-    private serializeOutput(output: vscode.NotebookCellOutput): any {
-        const items = output.items;
-        
-        if (items.length === 0) {
-            return { output_type: 'stream', name: 'stdout', text: [] };
+    getForwardedPorts(runtime?: DockerManager): { runtime: DockerManager; port: ForwardedPort }[] {
+        return Array.from(this.forwarders)
+            .filter(([owner]) => !runtime || owner === runtime)
+            .flatMap(([owner, forwarder]) => forwarder.list().map((port) => ({ runtime: owner, port })));
+    }
+
+    async stopForwardingPort(runtime: DockerManager, containerPort: number): Promise<void> {
+        await this.forwarders.get(runtime)?.stop(containerPort);
+    }
+
+    private startPortForwarding(runtime: DockerManager, notebook: vscode.NotebookDocument): void {
+        const mode = vscode.workspace.getConfiguration('jupyterDocker', notebook.uri).get<PortForwardMode>('forwardPorts', 'auto');
+        if (mode === 'off' || this.forwarders.has(runtime)) {
+            return;
         }
 
-        const firstItem = items[0];
-        
-        if (firstItem.mime === 'application/vnd.code.notebook.error') {
-            const error = JSON.parse(new TextDecoder().decode(firstItem.data));
-            return {
-                output_type: 'error',
-                ename: error.name || 'Error',
-                evalue: error.message || '',
-                traceback: error.stack ? error.stack.split('\n') : []
-            };
+        const forwarder = new PortForwarder(
+            runtime,
+            mode,
+            () => this.lastExecuted.get(runtime),
+            () => Array.from(this.sessions.values())
+                .filter((session) => session.dockerManager === runtime)
+                .flatMap((session) => session.ports)
+        );
+        forwarder.onDidChange(() => this.onDidChangeForwardedPortsEmitter.fire());
+        this.forwarders.set(runtime, forwarder);
+        forwarder.start();
+    }
+
+    // Forwards end with the kernel of the notebook that started the server, and all
+    // of them with the container's last kernel
+    private stopPortForwarding(runtime: DockerManager, notebookKey: string): void {
+        const forwarder = this.forwarders.get(runtime);
+        if (!forwarder) {
+            return;
+        }
+        const hasKernels = Array.from(this.sessions.values()).some((session) => session.dockerManager === runtime && session.isAlive);
+        if (hasKernels) {
+            forwarder.disposeFor(notebookKey);
+        } else {
+            this.forwarders.delete(runtime);
+            this.lastExecuted.delete(runtime);
+            forwarder.dispose();
         }
+    }
 
-        if (firstItem.mime === 'text/plain') {
-            return {
-                output_type: 'stream',
-                name: 'stdout',
-                text: new TextDecoder().decode(firstItem.data).split('\n')
-            };
+    // Ends the kernels running in a runtime (or all kernels, or one notebook's), e.g.
+    // when notebooks move to another container
+    shutdownKernels(runtime?: DockerManager, notebook?: vscode.NotebookDocument): void {
+        for (const [key, session] of this.sessions) {
+            const matches = notebook ? key === notebook.uri.toString() : !runtime || session.dockerManager === runtime;
+            if (matches) {
+                this.sessions.delete(key);
+                session.dispose();
+            }
         }
+    }
 
-        // Default to display_data for other types
-        const data: any = {};
-        for (const item of items) {
-            data[item.mime] = new TextDecoder().decode(item.data);
+    private disposeSession(notebook: vscode.NotebookDocument): void {
+        const key = notebook.uri.toString();
+        const session = this.sessions.get(key);
+        if (session) {
+            this.sessions.delete(key);
+            session.dispose();
         }
+        this.queues.delete(key);
+        this.runs.delete(key);
+    }
+}
 
-        return {
-            output_type: 'display_data',
-            data: data
-        };
+// Text of an output message that may mention a server's URL
+function getOutputText(msg: KernelMessage): string {
+    if (msg.header.msg_type === 'stream') {
+        return msg.content.text || '';
     }
-}
\ No newline at end of file
+    const data = msg.content.data || {};
+    return [data['text/plain'], data['text/html']].filter((text) => typeof text === 'string').join('\n');
+}
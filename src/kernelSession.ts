@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { StringDecoder } from 'string_decoder';
+import { DockerManager } from './dockerManager';
+import { ExecProcess } from './containerRuntime';
+
+export type KernelChannel = 'shell' | 'iopub' | 'control' | 'stdin';
+
+// Content fields of the messages the extension reads; which are set depends on msg_type
+export interface KernelMessageContent {
+    execution_count?: number | null;
+    execution_state?: string;
+    name?: string;
+    text?: string;
+    wait?: boolean;
+    data?: { [mime: string]: unknown };
+    metadata?: { [key: string]: unknown };
+    transient?: { display_id?: string };
+    ename?: string;
+    evalue?: string;
+    traceback?: string[];
+    prompt?: string;
+    password?: boolean;
+    [key: string]: unknown;
+}
+
+export interface KernelMessage {
+    channel: KernelChannel;
+    header: { msg_id: string; msg_type: string; [key: string]: unknown };
+    parent_header: { msg_id?: string; msg_type?: string; [key: string]: unknown };
+    metadata: { [key: string]: unknown };
+    content: KernelMessageContent;
+}
+
+// Events of the bridge script itself, on its own pseudo channel
+interface BridgeEvent {
+    channel: 'bridge';
+    event: 'ready' | 'restarted' | 'died' | 'error';
+    connection_file?: string;
+    ports?: number[];
+    exit_code?: number | null;
+    error?: string;
+}
+
+export interface ExecuteReply {
+    status: 'ok' | 'error' | 'aborted';
+    execution_count: number | null;
+    ename?: string;
+    evalue?: string;
+    traceback?: string[];
+}
+
+// The kernel process exited on its own. exitCode is negative for a signal, e.g. -9
+// when the OOM killer sent SIGKILL
+export class KernelDiedError extends Error {
+    constructor(readonly exitCode: number | null) {
+        super(`Kernel died unexpectedly (${exitCode !== null && exitCode < 0 ? `signal ${-exitCode}` : `exit code ${exitCode}`})`);
+        this.name = 'KernelDiedError';
+    }
+}
+
+interface PendingRequest {
+    onMessage: (msg: KernelMessage) => void;
+    reply: KernelMessageContent | undefined;
+    idle: boolean;
+    resolve: (reply: KernelMessageContent) => void;
+    reject: (error: Error) => void;
+}
+
+export class KernelSession implements vscode.Disposable {
+    private bridge: ExecProcess | undefined;
+    private buffer = '';
+    // Cell output is UTF-8 that chunks may split mid-character
+    private decoder = new StringDecoder('utf-8');
+    private pending = new Map<string, PendingRequest>();
+    private exited = false;
+    private bridgeWaiter: { resolve: () => void; reject: (error: Error) => void } | undefined;
+    private readonly onDidExitEmitter = new vscode.EventEmitter<void>();
+
+    readonly onDidExit = this.onDidExitEmitter.event;
+
+    // The kernel's ZMQ ports inside the container; restarts keep them
+    ports: number[] = [];
+
+    // Secrets in the kernel's environment; a restart passes the current ones
+    private secrets: { [name: string]: string } = {};
+
+    constructor(
+        readonly dockerManager: DockerManager,
+        readonly kernelName: string,
+        private cwd?: string
+    ) {}
+
+    get isAlive(): boolean {
+        return !!this.bridge && !this.exited;
+    }
+
+    async start(): Promise<void> {
+        this.secrets = await this.dockerManager.getSecrets();
+        const bridge = await this.dockerManager.startKernelBridge(this.kernelName, this.secrets, this.cwd);
+        this.bridge = bridge;
+
+        bridge.stderr.on('data', (chunk: Buffer) => {
+            console.error(`[kernel ${this.kernelName}] ${chunk.toString('utf-8')}`);
+        });
+
+        const ready = new Promise<void>((resolve, reject) => {
+            this.bridgeWaiter = { resolve, reject };
+        });
+
+        bridge.stdout.on('data', (chunk: Buffer) => this.receive(chunk));
+        bridge.stdout.on('end', () => this.handleExit());
+
+        await ready;
+    }
+
+    interrupt(): void {
+        if (this.isAlive) {
+            this.send({ command: 'interrupt' });
+        }
+    }
+
+    async restart(): Promise<void> {
+        if (!this.isAlive) {
+            throw new Error('Kernel is not running');
+        }
+
+        // Requests sent to the old kernel process will never be answered
+        this.rejectPending(new Error('Kernel restarted'));
+
+        // The bridge outlives the kernel, so secrets set or removed since the start
+        // reach the new kernel process through the restart itself
+        const secrets = await this.dockerManager.getSecrets();
+        const unset = Object.keys(this.secrets).filter((name) => !(name in secrets));
+
+        const restarted = new Promise<void>((resolve, reject) => {
+            this.bridgeWaiter = { resolve, reject };
+        });
+        this.send({ command: 'restart', env: secrets, unset });
+        await restarted;
+        this.secrets = secrets;
+
+        // The restarted kernel binds the same ports; a kernel_info round trip
+        // confirms its channels are answering again
+        await this.request('shell', 'kernel_info_request', {});
+    }
+
+    // The kernel_info_reply content: implementation and language_info
+    async kernelInfo(): Promise<{ implementation?: string; language_info?: object }> {
+        return this.request<{ implementation?: string; language_info?: object }>('shell', 'kernel_info_request', {});
+    }
+
+    async execute(code: string, onMessage: (msg: KernelMessage) => void): Promise<ExecuteReply> {
+        return this.request<ExecuteReply>('shell', 'execute_request', {
+            code,
+            silent: false,
+            store_history: true,
+            user_expressions: {},
+            // input_request messages reach onMessage and are answered with replyToInput
+            allow_stdin: true,
+            stop_on_error: true
+        }, onMessage);
+    }
+
+    // Answers an input_request (input(), getpass()) of the running cell
+    replyToInput(value: string, inputRequest: KernelMessage): void {
+        if (this.isAlive) {
+            this.send({
+                command: 'send',
+                channel: 'stdin',
+                msg_type: 'input_reply',
+                msg_id: randomUUID(),
+                content: { value },
+                parent_header: inputRequest.header
+            });
+        }
+    }
+
+    private request<T = KernelMessageContent>(
+        channel: KernelChannel,
+        msgType: string,
+        content: object,
+        onMessage: (msg: KernelMessage) => void = () => undefined
+    ): Promise<T> {
+        if (!this.isAlive) {
+            return Promise.reject(new Error('Kernel is not running'));
+        }
+
+        const msgId = randomUUID();
+        return new Promise((resolve, reject) => {
+            // The reply's fields depend on the request; the caller names what it expects
+            const resolveReply = (reply: KernelMessageContent) => resolve(reply as unknown as T);
+            this.pending.set(msgId, { onMessage, reply: undefined, idle: false, resolve: resolveReply, reject });
+            this.send({ command: 'send', channel, msg_type: msgType, msg_id: msgId, content });
+        });
+    }
+
+    private send(request: object): void {
+        this.bridge?.stdin.write(JSON.stringify(request) + '\n');
+    }
+
+    private receive(chunk: Buffer): void {
+        this.buffer += this.decoder.write(chunk);
+        let newline = this.buffer.indexOf('\n');
+        while (newline !== -1) {
+            const line = this.buffer.slice(0, newline).trim();
+            this.buffer = this.buffer.slice(newline + 1);
+            newline = this.buffer.indexOf('\n');
+            if (!line) {
+                continue;
+            }
+
+            let message: KernelMessage | BridgeEvent;
+            try {
+                message = JSON.parse(line);
+            } catch (error) {
+                console.error('Unparseable kernel bridge output:', line);
+                continue;
+            }
+
+            if (message.channel === 'bridge') {
+                this.handleBridgeEvent(message);
+            } else {
+                this.dispatch(message);
+            }
+        }
+    }
+
+    private handleBridgeEvent(message: BridgeEvent): void {
+        const waiter = this.bridgeWaiter;
+        this.bridgeWaiter = undefined;
+
+        if (message.event === 'ready') {
+            console.log(`Kernel ${this.kernelName} ready (${message.connection_file})`);
+            this.ports = message.ports || [];
+            waiter?.resolve();
+        } else if (message.event === 'restarted') {
+            console.log(`Kernel ${this.kernelName} restarted`);
+            waiter?.resolve();
+        } else if (message.event === 'died') {
+            // Nothing will answer; end the session so the next run starts a fresh kernel
+            const error = new KernelDiedError(message.exit_code ?? null);
+            console.error(`Kernel ${this.kernelName}: ${error.message}`);
+            waiter?.reject(error);
+            this.rejectPending(error);
+            this.dispose();
+        } else if (message.event === 'error') {
+            const error = new Error(`Kernel error: ${message.error}`);
+            if (waiter) {
+                waiter.reject(error);
+            } else {
+                console.error(error.message);
+            }
+        }
+    }
+
+    private dispatch(msg: KernelMessage): void {
+        const parentId = msg.parent_header?.msg_id;
+        const pending = parentId ? this.pending.get(parentId) : undefined;
+        if (!parentId || !pending) {
+            return;
+        }
+
+        if (msg.channel === 'iopub') {
+            if (msg.header.msg_type === 'status' && msg.content.execution_state === 'idle') {
+                pending.idle = true;
+            } else {
+                pending.onMessage(msg);
+            }
+        } else if (msg.header.msg_type.endsWith('_reply')) {
+            pending.reply = msg.content;
+        } else {
+            pending.onMessage(msg);
+        }
+
+        // A request is finished once its reply has arrived and the kernel has
+        // gone idle, which guarantees all of its iopub output was delivered
+        if (pending.reply !== undefined && (pending.idle || msg.channel === 'control')) {
+            this.pending.delete(parentId);
+            pending.resolve(pending.reply);
+        }
+    }
+
+    private handleExit(): void {
+        if (this.exited) {
+            return;
+        }
+        this.exited = true;
+
+        const error = new Error('Kernel exited');
+        this.bridgeWaiter?.reject(error);
+        this.bridgeWaiter = undefined;
+        this.rejectPending(error);
+        this.onDidExitEmitter.fire();
+    }
+
+    private rejectPending(error: Error): void {
+        for (const pending of this.pending.values()) {
+            pending.reject(error);
+        }
+        this.pending.clear();
+    }
+
+    dispose(): void {
+        if (this.bridge && !this.exited) {
+            this.send({ command: 'shutdown' });
+            this.bridge.stdin.end();
+        }
+        this.handleExit();
+        this.onDidExitEmitter.dispose();
+    }
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { DockerManager } from './dockerManager';
+import { DockerKernelProvider } from './kernelProvider';
+import { RuntimeRegistry } from './runtimeRegistry';
+
+// How often runtimes are checked against their idle timeout
+const IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Stops runtime containers while VS Code runs, following jupyterDocker.lifecycle:
+// when the last notebook using one closes, or after idleTimeout minutes without a
+// cell run. Stopped containers are kept and start again on the next run. What
+// happens on exit is up to DockerManager.dispose.
+export class RuntimeLifecycle implements vscode.Disposable {
+    // When each runtime last started or finished a cell
+    private lastActivity = new Map<DockerManager, number>();
+    private timer: NodeJS.Timeout;
+    private checking = false;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private runtimes: RuntimeRegistry,
+        private kernelProvider: DockerKernelProvider,
+        // Called after a container was stopped, e.g. to update the status bar
+        private onDidStop: (runtime: DockerManager) => void
+    ) {
+        this.timer = setInterval(() => this.stopIdleRuntimes(), IDLE_CHECK_INTERVAL_MS);
+        this.disposables.push(
+            kernelProvider.onDidRunCell((runtime) => this.lastActivity.set(runtime, Date.now())),
+            vscode.workspace.onDidCloseNotebookDocument((notebook) => this.handleClose(notebook))
+        );
+    }
+
+    private async handleClose(closed: vscode.NotebookDocument): Promise<void> {
+        if (closed.notebookType !== 'jupyter-notebook') {
+            return;
+        }
+        const runtime = this.runtimes.getForNotebook(closed.uri);
+        if (runtime.getLifecyclePolicy() !== 'stopOnLastClose') {
+            return;
+        }
+        const stillOpen = vscode.workspace.notebookDocuments.some((notebook) =>
+            notebook !== closed
+            && notebook.notebookType === 'jupyter-notebook'
+            && this.runtimes.getForNotebook(notebook.uri) === runtime
+        );
+        if (!stillOpen) {
+            await this.stop(runtime, 'its last notebook was closed');
+        }
+    }
+
+    private async stopIdleRuntimes(): Promise<void> {
+        if (this.checking) {
+            return;
+        }
+        this.checking = true;
+        try {
+            const now = Date.now();
+            for (const runtime of this.runtimes.all()) {
+                if (runtime.getLifecyclePolicy() !== 'stopWhenIdle') {
+                    continue;
+                }
+                // A container left running by an earlier session counts from now on
+                const lastActivity = this.lastActivity.get(runtime) ?? now;
+                this.lastActivity.set(runtime, lastActivity);
+
+                const idleMinutes = runtime.getIdleTimeoutMinutes();
+                if (idleMinutes > 0 && now - lastActivity >= idleMinutes * 60 * 1000 && !this.kernelProvider.hasPendingCells(runtime)) {
+                    await this.stop(runtime, `it was idle for ${idleMinutes} minutes`);
+                }
+            }
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    private async stop(runtime: DockerManager, reason: string): Promise<void> {
+        this.lastActivity.delete(runtime);
+        if (runtime.getAttachedContainerId() || !(await runtime.isContainerRunning())) {
+            return;
+        }
+        try {
+            this.kernelProvider.shutdownKernels(runtime);
+            await runtime.stopContainer(false);
+            console.log(`Stopped the runtime container of ${runtime.scope.root}: ${reason}`);
+            vscode.window.showInformationMessage(`Jupyter Docker stopped the runtime container because ${reason}. It starts again when you run a cell`);
+            this.onDidStop(runtime);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to stop the runtime container: ${error}`);
+        }
+    }
+
+    dispose(): void {
+        clearInterval(this.timer);
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+}
@@ -0,0 +1,356 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { BASE64_MIME_TYPES, MimeBundle, errorOutput, itemsToMimeBundle, mimeBundleToItems, streamOutputItem } from './cellOutput';
+
+// Conversion between .ipynb files (nbformat 4.x) and VS Code notebook data. Everything
+// VS Code has no place for (cell ids, cell metadata, attachments, outputs as read) is
+// carried in metadata so an unchanged notebook is written back byte for byte.
+
+// Key in the notebook metadata holding how the file was formatted; never written out
+const FORMAT_KEY = 'jupyterDocker.format';
+
+// Cells of nbformat 4.5 and later must carry an id
+const FIRST_MINOR_WITH_IDS = 5;
+const NEW_NOTEBOOK_MINOR = 5;
+
+// Jupyter writes one-space indented JSON
+const DEFAULT_INDENT = 1;
+
+// Raw cells are code cells in this pseudo-language, which no kernel claims
+export const RAW_LANGUAGE = 'raw';
+
+const ERROR_MIME = 'application/vnd.code.notebook.error';
+const STDOUT_MIME = 'application/vnd.code.notebook.stdout';
+const STDERR_MIME = 'application/vnd.code.notebook.stderr';
+
+// Kernelspec languages whose VS Code language id is not just the lowercased name
+const LANGUAGE_IDS: { [language: string]: string } = {
+    'c++': 'cpp',
+    'c#': 'csharp',
+    'f#': 'fsharp',
+    'bash': 'shellscript',
+    'sh': 'shellscript'
+};
+
+interface NotebookFormat {
+    minor: number;
+    indent: number;
+    // Whether the file's keys were sorted, as nbformat writes them; other files keep
+    // their key order, including the top-level order in keys
+    sorted?: boolean;
+    keys?: string[];
+}
+
+// A cell as stored in the file; what VS Code doesn't model stays in the cell metadata
+interface RawCell {
+    cell_type?: string;
+    id?: unknown;
+    source?: string | string[];
+    outputs?: RawOutput[];
+    execution_count?: number | null;
+    [key: string]: unknown;
+}
+
+interface RawOutput {
+    output_type?: string;
+    name?: string;
+    text?: string | string[];
+    data?: { [mime: string]: unknown };
+    metadata?: object;
+    execution_count?: number | null;
+    ename?: string;
+    evalue?: string;
+    traceback?: string[];
+    [key: string]: unknown;
+}
+
+export function toLanguageId(language: string): string {
+    const normalized = language.toLowerCase();
+    return LANGUAGE_IDS[normalized] || normalized;
+}
+
+// Throws on anything that is not an nbformat 4 notebook, so a file VS Code cannot
+// read is never replaced by an empty notebook on save
+export function parseNotebook(content: Uint8Array): vscode.NotebookData {
+    const text = new TextDecoder().decode(content);
+    if (!text.trim()) {
+        // A new, empty file
+        const data = new vscode.NotebookData([]);
+        data.metadata = { [FORMAT_KEY]: { minor: NEW_NOTEBOOK_MINOR, indent: DEFAULT_INDENT } };
+        return data;
+    }
+
+    let notebook: {
+        cells?: unknown;
+        nbformat?: unknown;
+        nbformat_minor?: number;
+        metadata?: { kernelspec?: { language?: string }; language_info?: { name?: string }; [key: string]: unknown };
+    };
+    try {
+        notebook = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Not a valid notebook: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!notebook || typeof notebook !== 'object' || !Array.isArray(notebook.cells)) {
+        throw new Error('Not a valid notebook: no cells list');
+    }
+    if (notebook.nbformat !== 4) {
+        throw new Error(`Unsupported notebook format ${notebook.nbformat}; only nbformat 4 is supported`);
+    }
+
+    // Code cells are in the language of the kernel the notebook was saved with
+    const metadata = notebook.metadata || {};
+    const language = toLanguageId(metadata.kernelspec?.language || metadata.language_info?.name || 'python');
+
+    const minor = notebook.nbformat_minor ?? 0;
+    const usedIds = new Set<string>();
+    const cells = (notebook.cells as RawCell[]).map((cell) => parseCell(cell, language, minor >= FIRST_MINOR_WITH_IDS ? usedIds : undefined));
+
+    const sorted = JSON.stringify(notebook) === JSON.stringify(sortKeys(notebook));
+    const format: NotebookFormat = { minor, indent: detectIndent(text), sorted };
+    if (!sorted) {
+        format.keys = Object.keys(notebook);
+    }
+    const data = new vscode.NotebookData(cells);
+    data.metadata = { ...metadata, [FORMAT_KEY]: format };
+    return data;
+}
+
+// scrub is applied to every string in the outputs, e.g. to remove secret values
+export function serializeNotebook(data: vscode.NotebookData, scrub: (text: string) => string = (text) => text): Uint8Array {
+    const { [FORMAT_KEY]: format, ...metadata } = data.metadata || {};
+    const { minor, indent, sorted = true, keys = [] }: NotebookFormat = format || { minor: NEW_NOTEBOOK_MINOR, indent: DEFAULT_INDENT };
+
+    const usedIds = new Set<string>();
+    const content: { [key: string]: unknown } = {
+        cells: data.cells.map((cell) => serializeCell(cell, minor >= FIRST_MINOR_WITH_IDS ? usedIds : undefined, scrub)),
+        metadata,
+        nbformat: 4,
+        nbformat_minor: minor
+    };
+    const notebook = sorted
+        ? sortKeys(content)
+        : Object.fromEntries([...keys.filter((key) => key in content), ...Object.keys(content)].map((key) => [key, content[key]]));
+
+    // Same layout as nbformat's writer: sorted keys and a trailing newline
+    return new TextEncoder().encode(JSON.stringify(notebook, null, indent) + '\n');
+}
+
+// Ids for added cells that have none or share one with another cell, like a pasted
+// copy. Stored in the cell metadata, so a cell keeps its id from save to save
+export function assignCellIds(notebook: vscode.NotebookDocument, added: readonly vscode.NotebookCell[]): vscode.NotebookEdit[] {
+    const format: NotebookFormat | undefined = notebook.metadata?.[FORMAT_KEY];
+    if ((format?.minor ?? NEW_NOTEBOOK_MINOR) < FIRST_MINOR_WITH_IDS) {
+        return [];
+    }
+    const addedCells = new Set(added);
+    const usedIds = new Set(notebook.getCells()
+        .filter((cell) => !addedCells.has(cell) && typeof cell.metadata?.id === 'string')
+        .map((cell) => cell.metadata.id as string));
+
+    const edits: vscode.NotebookEdit[] = [];
+    for (const cell of added) {
+        const id = cell.metadata?.id;
+        if (typeof id === 'string' && !usedIds.has(id)) {
+            usedIds.add(id);
+        } else {
+            const newId = newCellId(usedIds);
+            usedIds.add(newId);
+            edits.push(vscode.NotebookEdit.updateCellMetadata(cell.index, { ...cell.metadata, id: newId }));
+        }
+    }
+    return edits;
+}
+
+// usedIds is set for notebooks whose cells carry ids; missing and repeated ones get new ids
+function parseCell(cell: RawCell, language: string, usedIds: Set<string> | undefined): vscode.NotebookCellData {
+    const source = joinLines(cell.source);
+    let cellData: vscode.NotebookCellData;
+    if (cell.cell_type === 'code') {
+        cellData = new vscode.NotebookCellData(vscode.NotebookCellKind.Code, source, language);
+        cellData.outputs = (cell.outputs || []).map(parseOutput);
+        if (typeof cell.execution_count === 'number') {
+            cellData.executionSummary = { executionOrder: cell.execution_count };
+        }
+    } else if (cell.cell_type === 'markdown') {
+        cellData = new vscode.NotebookCellData(vscode.NotebookCellKind.Markup, source, 'markdown');
+    } else {
+        cellData = new vscode.NotebookCellData(vscode.NotebookCellKind.Code, source, RAW_LANGUAGE);
+    }
+
+    // Everything except the outputs, which are kept with each output. The source as read
+    // tells whether it was written as a string or a list of lines
+    const stored = { ...cell };
+    delete stored.outputs;
+    if (usedIds) {
+        stored.id = takeCellId(cell.id, usedIds);
+    }
+    cellData.metadata = stored;
+    return cellData;
+}
+
+function serializeCell(cell: vscode.NotebookCellData, usedIds: Set<string> | undefined, scrub: (text: string) => string): object {
+    const stored: RawCell = cell.metadata || {};
+    const cellType = cell.kind === vscode.NotebookCellKind.Markup
+        ? 'markdown'
+        : cell.languageId === RAW_LANGUAGE ? 'raw' : 'code';
+
+    const result: RawCell = {
+        ...stored,
+        cell_type: cellType,
+        metadata: stored.metadata || {},
+        source: typeof stored.source === 'string' ? cell.value
+            : Array.isArray(stored.source) && joinLines(stored.source) === cell.value ? stored.source
+            : splitLines(cell.value)
+    };
+    if (usedIds) {
+        result.id = takeCellId(stored.id, usedIds);
+    }
+    // Attachments only belong to markdown and raw cells, outputs only to code cells
+    if (cellType === 'code') {
+        delete result.attachments;
+        result.outputs = (cell.outputs || []).map((output) => scrubStrings(serializeOutput(output), scrub) as RawOutput);
+        result.execution_count = cell.executionSummary?.executionOrder ?? null;
+    } else {
+        delete result.execution_count;
+    }
+    return result;
+}
+
+// The cell's own id unless an earlier cell has it already
+function takeCellId(id: unknown, usedIds: Set<string>): string {
+    const taken = typeof id === 'string' && id && !usedIds.has(id) ? id : newCellId(usedIds);
+    usedIds.add(taken);
+    return taken;
+}
+
+function newCellId(usedIds: Set<string>): string {
+    let id: string;
+    do {
+        id = randomBytes(4).toString('hex');
+    } while (usedIds.has(id));
+    return id;
+}
+
+// Outputs only change by being replaced, so one read from the file keeps the original
+// for writing back; the rest of the metadata is what renderers and the writer use
+function parseOutput(output: RawOutput): vscode.NotebookCellOutput {
+    switch (output.output_type) {
+        case 'stream':
+            return new vscode.NotebookCellOutput([streamOutputItem(output.name || 'stdout', joinLines(output.text))], {
+                outputType: 'stream',
+                original: output
+            });
+        case 'execute_result':
+        case 'display_data':
+            return new vscode.NotebookCellOutput(mimeBundleToItems(output.data || {}), {
+                outputType: output.output_type,
+                executionCount: output.execution_count,
+                metadata: output.metadata || {},
+                original: output
+            });
+        case 'error':
+            return errorOutput(output, output);
+        default:
+            return new vscode.NotebookCellOutput([], { outputType: output.output_type, original: output });
+    }
+}
+
+function serializeOutput(output: vscode.NotebookCellOutput): object {
+    const metadata = output.metadata || {};
+    if (metadata.original) {
+        return metadata.original;
+    }
+
+    const items = output.items;
+    const errorItem = items.find((item) => item.mime === ERROR_MIME);
+    const streamItem = items.find((item) => item.mime === STDOUT_MIME || item.mime === STDERR_MIME);
+
+    if (errorItem) {
+        if (metadata.outputType === 'error') {
+            return { output_type: 'error', ename: metadata.ename, evalue: metadata.evalue, traceback: metadata.traceback };
+        }
+        // Errors raised by the extension itself rather than the kernel
+        const error = JSON.parse(new TextDecoder().decode(errorItem.data));
+        return {
+            output_type: 'error',
+            ename: error.name || 'Error',
+            evalue: error.message || '',
+            traceback: error.stack ? error.stack.split('\n') : []
+        };
+    }
+
+    if (streamItem) {
+        return {
+            output_type: 'stream',
+            name: streamItem.mime === STDERR_MIME ? 'stderr' : 'stdout',
+            text: splitLines(new TextDecoder().decode(streamItem.data))
+        };
+    }
+
+    const data = splitMimeBundle(itemsToMimeBundle(items));
+    if (metadata.outputType === 'execute_result') {
+        return {
+            output_type: 'execute_result',
+            execution_count: metadata.executionCount ?? null,
+            data,
+            metadata: metadata.metadata || {}
+        };
+    }
+    return {
+        output_type: 'display_data',
+        data,
+        metadata: metadata.metadata || {}
+    };
+}
+
+function splitMimeBundle(bundle: MimeBundle): MimeBundle {
+    const result: MimeBundle = {};
+    for (const [mime, value] of Object.entries(bundle)) {
+        // Base64 data stays a single string
+        result[mime] = typeof value === 'string' && !BASE64_MIME_TYPES.includes(mime) ? splitLines(value) : value;
+    }
+    return result;
+}
+
+function joinLines(value: string | string[] | undefined): string {
+    return Array.isArray(value) ? value.join('') : value || '';
+}
+
+// Multiline strings are stored as lists of lines, each keeping its newline
+function splitLines(text: string): string[] {
+    return text ? text.split(/(?<=\n)/) : [];
+}
+
+function detectIndent(text: string): number {
+    const match = /^\{\r?\n( +)"/.exec(text);
+    return match ? match[1].length : DEFAULT_INDENT;
+}
+
+function scrubStrings(value: unknown, scrub: (text: string) => string): unknown {
+    if (typeof value === 'string') {
+        return scrub(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => scrubStrings(item, scrub));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, scrubStrings(item, scrub)]));
+    }
+    return value;
+}
+
+export function sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (value && typeof value === 'object') {
+        const object = value as { [key: string]: unknown };
+        const sorted: { [key: string]: unknown } = {};
+        for (const key of Object.keys(object).sort()) {
+            sorted[key] = sortKeys(object[key]);
+        }
+        return sorted;
+    }
+    return value;
+}
@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DockerManager } from './dockerManager';
+
+export type PackageInstaller = 'pip' | 'uv' | 'conda';
+
+// Files a package can be recorded in so the next image build includes it
+export type RecordTarget = 'requirements.txt' | 'pyproject.toml' | 'Dockerfile';
+
+export interface InstalledPackage {
+    name: string;
+    version: string;
+}
+
+// A package install found in cell code, e.g. "%pip install pandas>=2"
+export interface CellInstall {
+    installer: PackageInstaller;
+    specs: string[];
+}
+
+// conda for a conda Python, uv when it is on PATH and can write to the environment
+// (it has no user installs), pip otherwise
+const DETECT_INSTALLER_SCRIPT = `
+import os, shutil, sys, sysconfig
+if os.path.isdir(os.path.join(sys.prefix, 'conda-meta')) and shutil.which('conda'):
+    print('conda')
+elif shutil.which('uv') and os.access(sysconfig.get_paths()['purelib'], os.W_OK):
+    print('uv')
+else:
+    print('pip')
+`;
+
+// Package installs in notebook cells: %pip, !pip, !python -m pip, %conda, !uv pip, ...
+const CELL_INSTALL_PATTERN = /^[ \t]*[%!][ \t]*((?:python3?[ \t]+-m[ \t]+)?pip3?|uv[ \t]+pip|conda|mamba)[ \t]+install[ \t]+(.*)$/gm;
+
+// Installer options whose value is the next argument rather than a package
+const OPTIONS_WITH_VALUES = new Set([
+    '-r', '--requirement', '-c', '--constraint', '-e', '--editable', '-i', '--index-url', '--extra-index-url',
+    '-f', '--find-links', '-t', '--target', '--prefix', '--python', '-n', '--name', '-p', '--channel'
+]);
+
+// Installs, upgrades and removes Python packages in a runtime's container. Output
+// is passed to onOutput as it arrives, for progress messages.
+export class PackageManager {
+    constructor(private dockerManager: DockerManager) {}
+
+    async detectInstaller(): Promise<PackageInstaller> {
+        const result = await this.dockerManager.execInContainer([this.dockerManager.getPythonPath(), '-c', DETECT_INSTALLER_SCRIPT]);
+        const installer = result.stdout.trim();
+        return installer === 'conda' || installer === 'uv' ? installer : 'pip';
+    }
+
+    async list(): Promise<InstalledPackage[]> {
+        const result = await this.dockerManager.execInContainerOrThrow(
+            [this.dockerManager.getPythonPath(), '-m', 'pip', 'list', '--format=json', '--disable-pip-version-check'],
+            'pip list'
+        );
+        const packages: InstalledPackage[] = JSON.parse(result.stdout);
+        return packages.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    }
+
+    // Returns the installer used, which decides how the packages are recorded
+    async install(specs: string[], onOutput: (text: string) => void): Promise<PackageInstaller> {
+        const installer = await this.detectInstaller();
+        await this.run(installer, 'install', specs, onOutput);
+        return installer;
+    }
+
+    async upgrade(name: string, onOutput: (text: string) => void): Promise<void> {
+        await this.run(await this.detectInstaller(), 'upgrade', [name], onOutput);
+    }
+
+    async uninstall(name: string, onOutput: (text: string) => void): Promise<void> {
+        await this.run(await this.detectInstaller(), 'uninstall', [name], onOutput);
+    }
+
+    private async run(
+        installer: PackageInstaller,
+        action: 'install' | 'upgrade' | 'uninstall',
+        specs: string[],
+        onOutput: (text: string) => void
+    ): Promise<void> {
+        const python = this.dockerManager.getPythonPath();
+        const commands: { [installer in PackageInstaller]: { [action: string]: string[] } } = {
+            pip: {
+                install: [python, '-m', 'pip', 'install', '--disable-pip-version-check'],
+                upgrade: [python, '-m', 'pip', 'install', '--disable-pip-version-check', '--upgrade'],
+                uninstall: [python, '-m', 'pip', 'uninstall', '--yes']
+            },
+            uv: {
+                install: ['uv', 'pip', 'install', '--python', python],
+                upgrade: ['uv', 'pip', 'install', '--python', python, '--upgrade'],
+                uninstall: ['uv', 'pip', 'uninstall', '--python', python]
+            },
+            conda: {
+                install: ['conda', 'install', '--yes'],
+                upgrade: ['conda', 'update', '--yes'],
+                uninstall: ['conda', 'remove', '--yes']
+            }
+        };
+        await this.dockerManager.execInContainerOrThrow([...commands[installer][action], ...specs], `${installer} ${action}`, onOutput);
+    }
+}
+
+// Package installs in a cell's code. Requirement files, editable installs, paths and
+// URLs are left out, since only named packages can be recorded
+export function parseCellInstalls(code: string): CellInstall[] {
+    const installs: CellInstall[] = [];
+    for (const match of code.matchAll(CELL_INSTALL_PATTERN)) {
+        const tool = match[1];
+        const installer: PackageInstaller = /conda|mamba/.test(tool) ? 'conda' : tool.startsWith('uv') ? 'uv' : 'pip';
+
+        // The install ends at a shell operator or comment
+        const args = match[2].split(/&&|\|\||[;|#]/)[0].trim().split(/\s+/);
+        const specs: string[] = [];
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i].replace(/^(['"])(.*)\1$/, '$2');
+            if (arg.startsWith('-')) {
+                if (OPTIONS_WITH_VALUES.has(arg)) {
+                    i++;
+                }
+            } else if (arg && getPackageName(arg) && !/[/\\${]/.test(arg)) {
+                specs.push(arg);
+            }
+        }
+        if (specs.length > 0) {
+            installs.push({ installer, specs });
+        }
+    }
+    return installs;
+}
+
+// Normalized (PEP 503) name of a requirement such as "Pandas[excel]>=2"
+export function getPackageName(spec: string): string | undefined {
+    const match = /^([A-Za-z0-9][A-Za-z0-9._-]*)/.exec(spec.trim());
+    return match ? normalizeName(match[1]) : undefined;
+}
+
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+// Where a package can be recorded for a runtime, most common first. requirements.txt
+// is offered even when missing and is then created in the workspace folder
+export function getRecordTargets(dockerManager: DockerManager): RecordTarget[] {
+    const targets: RecordTarget[] = ['requirements.txt'];
+    const pyproject = readFile(path.join(dockerManager.scope.root, 'pyproject.toml'));
+    if (pyproject !== undefined && /^\[project\][ \t]*$/m.test(pyproject)) {
+        targets.push('pyproject.toml');
+    }
+    if (dockerManager.usesBuiltImage() && fs.existsSync(dockerManager.getDockerfilePath())) {
+        targets.push('Dockerfile');
+    }
+    return targets;
+}
+
+// Whether any record target already names the package, so there is nothing to offer
+export function isPackageRecorded(dockerManager: DockerManager, spec: string): boolean {
+    const name = getPackageName(spec);
+    if (!name) {
+        return true;
+    }
+    const requirements = readFile(path.join(dockerManager.scope.root, 'requirements.txt')) ?? '';
+    if (requirements.split(/\r?\n/).some((line) => getPackageName(line) === name)) {
+        return true;
+    }
+    const pyproject = readFile(path.join(dockerManager.scope.root, 'pyproject.toml')) ?? '';
+    if (Array.from(pyproject.matchAll(/["']([^"'\n]+)["']/g)).some((match) => getPackageName(match[1]) === name)) {
+        return true;
+    }
+    const dockerfile = dockerManager.usesBuiltImage() ? readFile(dockerManager.getDockerfilePath()) ?? '' : '';
+    return dockerfile.split(/[\s'"\\]+/).some((word) => getPackageName(word) === name && /^[A-Za-z0-9]/.test(word));
+}
+
+// Whether the Dockerfile refers to a dependency file at all; recording a package
+// there has no effect on the build otherwise
+export function isUsedByDockerfile(dockerManager: DockerManager, target: RecordTarget): boolean {
+    if (target === 'Dockerfile' || !dockerManager.usesBuiltImage()) {
+        return true;
+    }
+    const dockerfile = readFile(dockerManager.getDockerfilePath());
+    return dockerfile === undefined || dockerfile.includes(target) || (target === 'pyproject.toml' && /pip install[^\n]*\s\.(\s|$)/m.test(dockerfile));
+}
+
+// Adds the packages to the target, replacing earlier entries of the same packages.
+// Returns the path of the file written
+export function recordPackages(dockerManager: DockerManager, target: RecordTarget, specs: string[], installer: PackageInstaller): string {
+    switch (target) {
+        case 'requirements.txt': {
+            const file = path.join(dockerManager.scope.root, 'requirements.txt');
+            writeFile(file, addToRequirements(readFile(file) ?? '', specs));
+            return file;
+        }
+        case 'pyproject.toml': {
+            const file = path.join(dockerManager.scope.root, 'pyproject.toml');
+            writeFile(file, addToPyproject(readFile(file) ?? '', specs));
+            return file;
+        }
+        case 'Dockerfile': {
+            const file = dockerManager.getDockerfilePath();
+            writeFile(file, addToDockerfile(readFile(file) ?? '', specs, installer));
+            return file;
+        }
+    }
+}
+
+function addToRequirements(text: string, specs: string[]): string {
+    const names = new Set(specs.map(getPackageName));
+    const lines = text.split(/\r?\n/).filter((line) => !names.has(getPackageName(line)));
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+        lines.pop();
+    }
+    return [...lines, ...specs].join('\n') + '\n';
+}
+
+// Rewrites the dependencies array of the [project] table one entry per line, leaving
+// the rest of the file as it is; the array is created when the table has none
+function addToPyproject(text: string, specs: string[]): string {
+    const names = new Set(specs.map(getPackageName));
+    const lines = text.split(/\r?\n/);
+    const projectLine = lines.findIndex((line) => /^\[project\]\s*$/.test(line));
+    if (projectLine === -1) {
+        throw new Error('pyproject.toml has no [project] table');
+    }
+
+    // The table ends at the next table header
+    let tableEnd = lines.findIndex((line, index) => index > projectLine && /^\s*\[/.test(line));
+    if (tableEnd === -1) {
+        tableEnd = lines.length;
+    }
+    const start = lines.findIndex((line, index) => index > projectLine && index < tableEnd && /^\s*dependencies\s*=\s*\[/.test(line));
+    const entries = specs.map((spec) => `    "${spec}",`);
+    if (start === -1) {
+        lines.splice(projectLine + 1, 0, 'dependencies = [', ...entries, ']');
+        return lines.join('\n');
+    }
+
+    // Collect the existing entries, wherever the array's brackets are
+    let end = start;
+    while (end < lines.length - 1 && !/\]\s*(#.*)?$/.test(lines[end])) {
+        end++;
+    }
+    const array = lines.slice(start, end + 1).join('\n');
+    const existing = Array.from(array.slice(array.indexOf('[') + 1, array.lastIndexOf(']')).matchAll(/"([^"]*)"|'([^']*)'/g))
+        .map((match) => match[1] ?? match[2])
+        .filter((spec) => !names.has(getPackageName(spec)));
+    lines.splice(start, end - start + 1, 'dependencies = [', ...existing.map((spec) => `    "${spec}",`), ...entries, ']');
+    return lines.join('\n');
+}
+
+// Adds a RUN line before a final CMD or ENTRYPOINT, so the rest of the image is unchanged
+function addToDockerfile(text: string, specs: string[], installer: PackageInstaller): string {
+    const commands: { [installer in PackageInstaller]: string } = {
+        pip: 'pip install --no-cache-dir',
+        uv: 'uv pip install --system',
+        conda: 'conda install --yes'
+    };
+    const quoted = specs.map((spec) => /^[A-Za-z0-9._-]+$/.test(spec) ? spec : `'${spec}'`);
+    const run = `RUN ${commands[installer]} ${quoted.join(' ')}`;
+
+    const lines = text.replace(/\s+$/, '').split(/\r?\n/);
+    let insertAt = lines.length;
+    while (insertAt > 0 && /^\s*(CMD|ENTRYPOINT|#|$)/i.test(lines[insertAt - 1])) {
+        insertAt--;
+    }
+    if (insertAt === lines.length) {
+        return [...lines, run].join('\n') + '\n';
+    }
+    // Keep the blank line that separates the final instructions
+    lines.splice(insertAt, 0, ...(lines[insertAt].trim() ? [run] : ['', run]));
+    return lines.join('\n') + '\n';
+}
+
+function readFile(file: string): string | undefined {
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined;
+}
+
+function writeFile(file: string, text: string): void {
+    fs.writeFileSync(file, text.endsWith('\n') ? text : text + '\n');
+}
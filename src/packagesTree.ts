@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { DockerManager } from './dockerManager';
+import { RuntimeRegistry } from './runtimeRegistry';
+import { InstalledPackage, PackageManager } from './packages';
+
+export type PackageNode =
+    | { kind: 'package'; runtime: DockerManager; info: InstalledPackage }
+    | { kind: 'message'; text: string };
+
+// Sidebar view of the Python packages installed in the active runtime's container
+export class PackagesTreeProvider implements vscode.TreeDataProvider<PackageNode>, vscode.Disposable {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    constructor(private runtimes: RuntimeRegistry) {}
+
+    refresh(): void {
+        this.onDidChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(node: PackageNode): vscode.TreeItem {
+        if (node.kind === 'message') {
+            return new vscode.TreeItem(node.text);
+        }
+        const item = new vscode.TreeItem(node.info.name);
+        item.description = node.info.version;
+        item.tooltip = `${node.info.name} ${node.info.version}`;
+        item.iconPath = new vscode.ThemeIcon('package');
+        item.contextValue = 'package';
+        return item;
+    }
+
+    async getChildren(node?: PackageNode): Promise<PackageNode[]> {
+        if (node) {
+            return [];
+        }
+
+        const runtime = this.runtimes.getActive();
+        if (!runtime) {
+            return [{ kind: 'message', text: 'Open a notebook or a folder' }];
+        }
+        if (!(await runtime.isContainerRunning())) {
+            return [{ kind: 'message', text: 'Start the runtime to list its packages' }];
+        }
+
+        try {
+            const packages = await new PackageManager(runtime).list();
+            return packages.map((info) => ({ kind: 'package' as const, runtime, info }));
+        } catch (error) {
+            return [{ kind: 'message', text: `Failed to list packages: ${error}` }];
+        }
+    }
+
+    dispose(): void {
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+}
@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import { DockerManager } from './dockerManager';
+
+// Run with the container's Python for every forwarded connection: relays the exec's
+// stdin/stdout to a TCP port inside the container, so no port has to be published
+const PORT_RELAY_SCRIPT = `
+import socket, sys, threading
+sock = socket.create_connection(('localhost', int(sys.argv[1])))
+def upstream():
+    while True:
+        data = sys.stdin.buffer.read1(65536)
+        if not data:
+            break
+        sock.sendall(data)
+    try:
+        sock.shutdown(socket.SHUT_WR)
+    except OSError:
+        pass
+threading.Thread(target=upstream, daemon=True).start()
+while True:
+    data = sock.recv(65536)
+    if not data:
+        break
+    sys.stdout.buffer.write(data)
+    sys.stdout.buffer.flush()
+`;
+
+// How often the container is checked for new listening sockets
+const POLL_INTERVAL_MS = 3000;
+
+// URLs printed by servers: "http://localhost:6006/", "http://0.0.0.0:8050/",
+// "http://172.17.0.2:8501" (Streamlit's network URL) or the container's hostname
+const URL_PATTERN = /\b(https?):\/\/(?:localhost|(?:\d{1,3}\.){3}\d{1,3}|\[[0-9a-f:]*\]|[0-9a-f]{12}):(\d{2,5})(\/[^\s'"<>)\]]*)?/gi;
+
+export type PortForwardMode = 'auto' | 'output' | 'off';
+
+export interface ForwardedPort {
+    containerPort: number;
+    hostPort: number;
+    // Address on this machine, including the path of a printed URL (e.g. a token)
+    url: string;
+    // Notebook whose kernel started the server; the forward ends with that kernel
+    notebookKey: string | undefined;
+}
+
+interface Forward {
+    port: ForwardedPort;
+    server: net.Server;
+    sockets: Set<net.Socket>;
+}
+
+// Forwards ports of one runtime container to localhost. New listening sockets are
+// found by polling /proc/net, and URLs printed by cells name ports and their paths.
+export class PortForwarder implements vscode.Disposable {
+    private forwards = new Map<number, Forward>();
+    // Ports that were listening before any server of ours, plus kernel ports
+    private ignored = new Set<number>();
+    // Paths from printed URLs whose port isn't listening yet
+    private printedUrls = new Map<number, { scheme: string; path: string; notebookKey: string }>();
+    private timer: NodeJS.Timeout | undefined;
+    private polling = false;
+    private disposed = false;
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+    readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(
+        readonly dockerManager: DockerManager,
+        private mode: PortForwardMode,
+        // Notebook that most recently ran a cell in this container
+        private getActiveNotebookKey: () => string | undefined,
+        // Ports of the kernels themselves, which must never be forwarded
+        private getKernelPorts: () => number[]
+    ) {}
+
+    async start(): Promise<void> {
+        if (this.mode === 'off') {
+            return;
+        }
+        try {
+            for (const port of await this.dockerManager.listListeningPorts()) {
+                this.ignored.add(port);
+            }
+        } catch (error) {
+            console.error('Failed to list listening ports:', error);
+        }
+        this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    }
+
+    list(): ForwardedPort[] {
+        return Array.from(this.forwards.values()).map((forward) => forward.port);
+    }
+
+    // Called with cell output text; forwards the ports of local URLs it mentions
+    async handleOutput(text: string, notebookKey: string): Promise<void> {
+        if (this.mode === 'off' || this.disposed) {
+            return;
+        }
+        let found = false;
+        for (const match of text.matchAll(URL_PATTERN)) {
+            const port = Number(match[2]);
+            const forward = this.forwards.get(port);
+            if (forward) {
+                // Found by polling before the URL was printed; keep its path and token
+                forward.port.url = `${match[1].toLowerCase()}://localhost:${forward.port.hostPort}${match[3] || '/'}`;
+                this.onDidChangeEmitter.fire();
+            } else if (!this.getKernelPorts().includes(port)) {
+                this.printedUrls.set(port, { scheme: match[1].toLowerCase(), path: match[3] || '/', notebookKey });
+                found = true;
+            }
+        }
+        if (found) {
+            await this.poll();
+        }
+    }
+
+    async stop(containerPort: number): Promise<void> {
+        const forward = this.forwards.get(containerPort);
+        if (!forward) {
+            return;
+        }
+        this.forwards.delete(containerPort);
+        // Stopped by hand: don't forward the port again while it keeps listening
+        this.ignored.add(containerPort);
+        this.close(forward);
+        this.onDidChangeEmitter.fire();
+    }
+
+    // Ends the forwards of a notebook whose kernel stopped
+    disposeFor(notebookKey: string): void {
+        let changed = false;
+        for (const [port, forward] of this.forwards) {
+            if (forward.port.notebookKey === notebookKey) {
+                this.forwards.delete(port);
+                this.close(forward);
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.onDidChangeEmitter.fire();
+        }
+    }
+
+    private async poll(): Promise<void> {
+        if (this.polling || this.disposed) {
+            return;
+        }
+        this.polling = true;
+        try {
+            const listening = new Set(await this.dockerManager.listListeningPorts());
+            if (this.disposed) {
+                return;
+            }
+            const kernelPorts = this.getKernelPorts();
+            let changed = false;
+
+            // Servers that exited
+            for (const [port, forward] of this.forwards) {
+                if (!listening.has(port)) {
+                    this.forwards.delete(port);
+                    this.close(forward);
+                    changed = true;
+                }
+            }
+            for (const port of this.ignored) {
+                if (!listening.has(port)) {
+                    this.ignored.delete(port);
+                }
+            }
+
+            for (const port of listening) {
+                if (this.forwards.has(port) || this.ignored.has(port) || kernelPorts.includes(port)) {
+                    continue;
+                }
+                const printed = this.printedUrls.get(port);
+                if (!printed && this.mode !== 'auto') {
+                    continue;
+                }
+                this.printedUrls.delete(port);
+                await this.forward(port, printed?.scheme ?? 'http', printed?.path ?? '/', printed?.notebookKey ?? this.getActiveNotebookKey());
+                changed = true;
+            }
+
+            if (changed) {
+                this.onDidChangeEmitter.fire();
+            }
+        } catch (error) {
+            // The container stopped; the kernel's exit disposes the forwarder
+            console.error('Failed to check for listening ports:', error);
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private async forward(containerPort: number, scheme: string, urlPath: string, notebookKey: string | undefined): Promise<void> {
+        const sockets = new Set<net.Socket>();
+        const server = net.createServer((socket) => this.relay(socket, containerPort, sockets));
+
+        // The same port number when it is free here, so printed URLs keep working
+        const hostPort = await listen(server, containerPort).catch(() => listen(server, 0));
+        const url = `${scheme}://localhost:${hostPort}${urlPath}`;
+        this.forwards.set(containerPort, { port: { containerPort, hostPort, url, notebookKey }, server, sockets });
+        console.log(`Forwarding container port ${containerPort} to ${url}`);
+
+        // Not awaited: the notification may stay open long after polling goes on
+        vscode.window.showInformationMessage(
+            `A server in the notebook container is available at ${url}`,
+            'Open in Simple Browser',
+            'Open in Browser'
+        ).then((choice) => {
+            if (choice === 'Open in Simple Browser') {
+                openInSimpleBrowser(url);
+            } else if (choice === 'Open in Browser') {
+                vscode.env.openExternal(vscode.Uri.parse(url));
+            }
+        });
+    }
+
+    private async relay(socket: net.Socket, containerPort: number, sockets: Set<net.Socket>): Promise<void> {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+        try {
+            const relay = await this.dockerManager.startPython(['-c', PORT_RELAY_SCRIPT, String(containerPort)]);
+            relay.stderr.on('data', (chunk: Buffer) => {
+                console.error(`[port ${containerPort}] ${chunk.toString('utf-8')}`);
+            });
+            socket.pipe(relay.stdin);
+            relay.stdout.pipe(socket);
+            socket.on('error', () => relay.stdin.end());
+        } catch (error) {
+            console.error(`Failed to relay a connection to container port ${containerPort}:`, error);
+            socket.destroy();
+        }
+    }
+
+    private close(forward: Forward): void {
+        forward.server.close();
+        forward.sockets.forEach((socket) => socket.destroy());
+        console.log(`Stopped forwarding container port ${forward.port.containerPort}`);
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        if (this.timer) {
+            clearInterval(this.timer);
+        }
+        this.forwards.forEach((forward) => this.close(forward));
+        this.forwards.clear();
+        this.onDidChangeEmitter.fire();
+        this.onDidChangeEmitter.dispose();
+    }
+}
+
+export function openInSimpleBrowser(url: string): Thenable<unknown> {
+    return vscode.commands.executeCommand('simpleBrowser.show', url);
+}
+
+function listen(server: net.Server, port: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            server.off('error', reject);
+            resolve((server.address() as net.AddressInfo).port);
+        });
+    });
+}
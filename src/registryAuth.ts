@@ -0,0 +1,105 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { execFile } from 'child_process';
+
+// Key Docker uses for Docker Hub in config.json and credential helpers
+const DOCKER_HUB_SERVER = 'https://index.docker.io/v1/';
+
+export interface RegistryAuth {
+    username?: string;
+    password?: string;
+    identitytoken?: string;
+    serveraddress: string;
+}
+
+// The parts of the Docker CLI's config.json that hold credentials
+interface DockerConfigFile {
+    auths?: { [server: string]: { auth?: string; identitytoken?: string } };
+    credsStore?: string;
+    credHelpers?: { [host: string]: string };
+}
+
+export function getDockerConfigDir(): string {
+    return process.env.DOCKER_CONFIG || path.join(os.homedir(), '.docker');
+}
+
+// Registry host of an image reference, following the Docker CLI's rules: the
+// first path component is a registry only if it looks like a host name
+export function getRegistryHost(imageRef: string): string {
+    const [first, ...rest] = imageRef.split('/');
+    if (rest.length > 0 && (first.includes('.') || first.includes(':') || first === 'localhost')) {
+        return first;
+    }
+    return 'docker.io';
+}
+
+// Resolves credentials for the image's registry from the Docker CLI config file,
+// including credsStore/credHelpers such as osxkeychain, wincred or pass
+export async function getRegistryAuth(imageRef: string): Promise<RegistryAuth | undefined> {
+    const configPath = path.join(getDockerConfigDir(), 'config.json');
+    if (!fs.existsSync(configPath)) {
+        return undefined;
+    }
+
+    let config: DockerConfigFile;
+    try {
+        config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    } catch (error) {
+        console.error(`Ignoring unreadable Docker config ${configPath}:`, error);
+        return undefined;
+    }
+
+    const host = getRegistryHost(imageRef);
+    const serverAddress = host === 'docker.io' ? DOCKER_HUB_SERVER : host;
+
+    const helper = config.credHelpers?.[host] || config.credsStore;
+    if (helper) {
+        const credentials = await getHelperCredentials(helper, serverAddress);
+        if (credentials) {
+            return credentials;
+        }
+    }
+
+    const auths = config.auths || {};
+    const entry = auths[serverAddress] || auths[`https://${host}`] || auths[host];
+    if (!entry) {
+        return undefined;
+    }
+
+    if (entry.identitytoken) {
+        return { identitytoken: entry.identitytoken, serveraddress: serverAddress };
+    }
+    if (entry.auth) {
+        const decoded = Buffer.from(entry.auth, 'base64').toString('utf-8');
+        const separator = decoded.indexOf(':');
+        return {
+            username: decoded.slice(0, separator),
+            password: decoded.slice(separator + 1),
+            serveraddress: serverAddress
+        };
+    }
+    return undefined;
+}
+
+function getHelperCredentials(helper: string, serverAddress: string): Promise<RegistryAuth | undefined> {
+    return new Promise((resolve) => {
+        const child = execFile(`docker-credential-${helper}`, ['get'], { timeout: 10000 }, (error, stdout) => {
+            if (error) {
+                // The helper has no entry for this registry or isn't installed
+                resolve(undefined);
+                return;
+            }
+
+            try {
+                const credentials = JSON.parse(stdout);
+                resolve(credentials.Username === '<token>'
+                    ? { identitytoken: credentials.Secret, serveraddress: serverAddress }
+                    : { username: credentials.Username, password: credentials.Secret, serveraddress: serverAddress });
+            } catch (parseError) {
+                resolve(undefined);
+            }
+        });
+        child.stdin?.end(serverAddress);
+    });
+}
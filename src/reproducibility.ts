@@ -0,0 +1,249 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DockerManager } from './dockerManager';
+import { DockerKernelProvider } from './kernelProvider';
+import { KernelSession } from './kernelSession';
+import { RuntimeRegistry } from './runtimeRegistry';
+import { PackageManager, getPackageName } from './packages';
+import { sortKeys } from './nbformat';
+
+// Notebook metadata key holding the environment the outputs were produced in
+export const ENVIRONMENT_METADATA_KEY = 'jupyterDocker';
+
+// Differences spelled out in the mismatch warning; the rest are counted
+const MAX_LISTED_DIFFERENCES = 3;
+
+// What a runtime container runs: written to notebook metadata when
+// jupyterDocker.recordEnvironment is on, and compared on open
+export interface EnvironmentRecord {
+    image: string;
+    imageId: string;
+    // Repo digest of a pulled image, which identifies it across machines
+    imageDigest?: string;
+    // sha256 of the Dockerfile of a built image
+    dockerfileHash?: string;
+    pythonVersion?: string;
+    // "name==version" of every installed package, like pip freeze
+    packages: string[];
+}
+
+export async function collectEnvironment(dockerManager: DockerManager): Promise<EnvironmentRecord> {
+    const image = await dockerManager.getContainerImage();
+    if (!image) {
+        throw new Error('The runtime container is not running');
+    }
+    const python = await dockerManager.execInContainer([
+        dockerManager.getPythonPath(), '-c', 'import platform; print(platform.python_version())'
+    ]);
+    // Containers without pip (e.g. only an R kernel) have no packages to record
+    const packages = await new PackageManager(dockerManager).list().catch(() => []);
+
+    const record: EnvironmentRecord = {
+        image: image.image,
+        imageId: image.id,
+        packages: packages.map((info) => `${info.name}==${info.version}`).sort((a, b) => a.localeCompare(b))
+    };
+    if (image.digest) {
+        record.imageDigest = image.digest;
+    }
+    const dockerfileHash = dockerManager.getDockerfileHash();
+    if (dockerfileHash) {
+        record.dockerfileHash = dockerfileHash;
+    }
+    if (python.exitCode === 0 && python.stdout.trim()) {
+        record.pythonVersion = python.stdout.trim();
+    }
+    return record;
+}
+
+export function getRecordedEnvironment(metadata: vscode.NotebookDocument['metadata'] | undefined): EnvironmentRecord | undefined {
+    const record = metadata?.[ENVIRONMENT_METADATA_KEY];
+    return record && typeof record.imageId === 'string' ? record : undefined;
+}
+
+// Human-readable differences between a recorded environment and the current one
+export function compareEnvironments(recorded: EnvironmentRecord, current: EnvironmentRecord): string[] {
+    const differences: string[] = [];
+
+    // Every build gets a new image id; for built images the Dockerfile and the
+    // packages tell whether anything that matters changed
+    const sameDockerfile = !!recorded.dockerfileHash && recorded.dockerfileHash === current.dockerfileHash;
+    if (recorded.imageDigest && current.imageDigest) {
+        if (recorded.imageDigest !== current.imageDigest) {
+            differences.push(`image ${recorded.imageDigest} is now ${current.imageDigest}`);
+        }
+    } else if (!sameDockerfile && recorded.imageId !== current.imageId) {
+        differences.push(`image ${shortId(recorded.imageId)} (${recorded.image}) is now ${shortId(current.imageId)} (${current.image})`);
+    }
+    if (recorded.dockerfileHash && current.dockerfileHash && !sameDockerfile) {
+        differences.push('the Dockerfile changed');
+    }
+    if (recorded.pythonVersion && current.pythonVersion && recorded.pythonVersion !== current.pythonVersion) {
+        differences.push(`Python ${recorded.pythonVersion} is now ${current.pythonVersion}`);
+    }
+
+    const installed = toVersions(current.packages);
+    for (const pin of recorded.packages || []) {
+        const [name, version] = pin.split('==');
+        const now = installed.get(getPackageName(name) || name);
+        if (now === undefined) {
+            differences.push(`${name} ${version} is not installed`);
+        } else if (now !== version) {
+            differences.push(`${name} ${version} is now ${now}`);
+        }
+    }
+    return differences;
+}
+
+// Recorded "name==version" pins that the current environment doesn't match
+export function getPackagesToRestore(recorded: EnvironmentRecord, currentPackages: string[]): string[] {
+    const installed = toVersions(currentPackages);
+    return (recorded.packages || []).filter((pin) => {
+        const [name, version] = pin.split('==');
+        return installed.get(getPackageName(name) || name) !== version;
+    });
+}
+
+function toVersions(pins: string[]): Map<string, string> {
+    return new Map(pins.map((pin) => {
+        const [name, version] = pin.split('==');
+        return [getPackageName(name) || name, version];
+    }));
+}
+
+function shortId(imageId: string): string {
+    return imageId.replace(/^sha256:/, '').slice(0, 12);
+}
+
+// Keeps notebook metadata in step with the kernel that runs it: language_info from the
+// kernel itself and, when enabled, the environment record. Warns once per opened
+// notebook when its record doesn't match the runtime it now runs in.
+export class EnvironmentRecorder implements vscode.Disposable {
+    // Notebooks compared with their runtime since they were opened
+    private checked = new Set<string>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private runtimes: RuntimeRegistry,
+        kernelProvider: DockerKernelProvider,
+        // Called when the user chooses to go back to a recorded environment
+        private restore: (runtime: DockerManager, recorded: EnvironmentRecord, useImage: boolean) => Promise<void>
+    ) {
+        this.disposables.push(
+            kernelProvider.onDidStartKernel(({ notebook, session }) => this.handleKernelStart(notebook, session)),
+            // Packages installed from a cell belong in the record of the notebooks using the runtime
+            kernelProvider.onDidInstallPackages(({ runtime }) => this.rerecord(runtime)),
+            vscode.workspace.onDidOpenNotebookDocument((notebook) => this.checkOnOpen(notebook)),
+            vscode.workspace.onDidCloseNotebookDocument((notebook) => this.checked.delete(notebook.uri.toString()))
+        );
+        vscode.workspace.notebookDocuments.forEach((notebook) => this.checkOnOpen(notebook));
+    }
+
+    private async handleKernelStart(notebook: vscode.NotebookDocument, session: KernelSession): Promise<void> {
+        try {
+            const info = await session.kernelInfo();
+            const recorded = getRecordedEnvironment(notebook.metadata);
+            let current: EnvironmentRecord | undefined;
+            if (shouldRecord(notebook) || (recorded && !this.checked.has(notebook.uri.toString()))) {
+                current = await collectEnvironment(session.dockerManager);
+                await this.check(notebook, session.dockerManager, current);
+            }
+            await this.update(notebook, info?.language_info, shouldRecord(notebook) ? current : undefined);
+        } catch (error) {
+            console.error('Failed to record the notebook environment:', error);
+        }
+    }
+
+    private async rerecord(runtime: DockerManager): Promise<void> {
+        const notebooks = vscode.workspace.notebookDocuments.filter((notebook) =>
+            notebook.notebookType === 'jupyter-notebook'
+            && shouldRecord(notebook)
+            && this.runtimes.getForNotebook(notebook.uri) === runtime
+        );
+        if (notebooks.length === 0) {
+            return;
+        }
+        try {
+            const current = await collectEnvironment(runtime);
+            for (const notebook of notebooks) {
+                await this.update(notebook, undefined, current);
+            }
+        } catch (error) {
+            console.error('Failed to record the notebook environment:', error);
+        }
+    }
+
+    // Compares right away when the container already runs; otherwise the kernel start does
+    private async checkOnOpen(notebook: vscode.NotebookDocument): Promise<void> {
+        if (notebook.notebookType !== 'jupyter-notebook' || !getRecordedEnvironment(notebook.metadata)) {
+            return;
+        }
+        const runtime = this.runtimes.getForNotebook(notebook.uri);
+        try {
+            if (await runtime.isContainerRunning()) {
+                await this.check(notebook, runtime, await collectEnvironment(runtime));
+            }
+        } catch (error) {
+            console.error('Failed to compare the notebook environment:', error);
+        }
+    }
+
+    private async check(notebook: vscode.NotebookDocument, runtime: DockerManager, current: EnvironmentRecord): Promise<void> {
+        const key = notebook.uri.toString();
+        const recorded = getRecordedEnvironment(notebook.metadata);
+        if (!recorded || this.checked.has(key)) {
+            return;
+        }
+        this.checked.add(key);
+
+        const differences = compareEnvironments(recorded, current);
+        if (differences.length === 0) {
+            return;
+        }
+        const listed = differences.slice(0, MAX_LISTED_DIFFERENCES).join(', ');
+        const more = differences.length > MAX_LISTED_DIFFERENCES ? ` and ${differences.length - MAX_LISTED_DIFFERENCES} more` : '';
+
+        const imageAvailable = recorded.imageId !== current.imageId
+            && !!(await (await runtime.getRuntime()).inspectImage(recorded.imageId).catch(() => undefined));
+        const actions = imageAvailable ? ['Use Recorded Image', 'Rebuild Environment'] : ['Rebuild Environment'];
+
+        // Not awaited: the record is updated while the notification stays open
+        vscode.window.showWarningMessage(
+            `The outputs of ${path.basename(notebook.uri.fsPath)} were produced in a different environment: ${listed}${more}`,
+            ...actions
+        ).then((choice) => {
+            if (choice) {
+                this.restore(runtime, recorded, choice === 'Use Recorded Image').catch((error) => {
+                    vscode.window.showErrorMessage(`Failed to restore the recorded environment: ${error}`);
+                });
+            }
+        });
+    }
+
+    // Edits the metadata (written on save) only when something changed, so starting a
+    // kernel doesn't mark an up-to-date notebook as modified
+    private async update(notebook: vscode.NotebookDocument, languageInfo: object | undefined, record: EnvironmentRecord | undefined): Promise<void> {
+        const metadata = notebook.metadata || {};
+        const updated = { ...metadata };
+        if (languageInfo) {
+            updated.language_info = languageInfo;
+        }
+        if (record) {
+            updated[ENVIRONMENT_METADATA_KEY] = record;
+        }
+        if (JSON.stringify(sortKeys(updated)) === JSON.stringify(sortKeys(metadata))) {
+            return;
+        }
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(notebook.uri, [vscode.NotebookEdit.updateNotebookMetadata(updated)]);
+        await vscode.workspace.applyEdit(edit);
+    }
+
+    dispose(): void {
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+}
+
+function shouldRecord(notebook: vscode.NotebookDocument): boolean {
+    return vscode.workspace.getConfiguration('jupyterDocker', notebook.uri).get<boolean>('recordEnvironment', false);
+}
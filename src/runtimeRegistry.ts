@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DockerManager, RuntimeScope } from './dockerManager';
+
+// Workspace state key listing notebooks that run in their own container
+const ISOLATED_NOTEBOOKS_STATE_KEY = 'jupyterDocker.isolatedNotebooks';
+
+// Settings editors change values on every keystroke; wait for the typing to stop
+const CONFIG_CHANGE_DELAY_MS = 1000;
+
+// One DockerManager per workspace folder, plus one per notebook that opted into an
+// isolated container. Notebooks outside any folder use their own directory as root.
+export class RuntimeRegistry implements vscode.Disposable {
+    private runtimes = new Map<string, DockerManager>();
+    private changedRuntimes = new Set<DockerManager>();
+    private changeTimer: NodeJS.Timeout | undefined;
+    private configListener: vscode.Disposable;
+    private readonly onDidChangeConfigurationEmitter = new vscode.EventEmitter<DockerManager>();
+
+    // Fires for each runtime whose settings changed, once the changes settle
+    readonly onDidChangeConfiguration = this.onDidChangeConfigurationEmitter.event;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.configListener = vscode.workspace.onDidChangeConfiguration((event) => {
+            for (const runtime of this.runtimes.values()) {
+                if (runtime.reloadConfiguration(event)) {
+                    this.changedRuntimes.add(runtime);
+                }
+            }
+            if (this.changedRuntimes.size === 0) {
+                return;
+            }
+            if (this.changeTimer) {
+                clearTimeout(this.changeTimer);
+            }
+            this.changeTimer = setTimeout(() => {
+                this.changeTimer = undefined;
+                const changed = Array.from(this.changedRuntimes);
+                this.changedRuntimes.clear();
+                changed.forEach((runtime) => this.onDidChangeConfigurationEmitter.fire(runtime));
+            }, CONFIG_CHANGE_DELAY_MS);
+        });
+    }
+
+    getForNotebook(notebookUri: vscode.Uri): DockerManager {
+        const folder = vscode.workspace.getWorkspaceFolder(notebookUri);
+        const root = folder?.uri.fsPath ?? path.dirname(notebookUri.fsPath);
+
+        if (this.isIsolated(notebookUri)) {
+            return this.getOrCreate({ key: `notebook:${notebookUri.toString()}`, root, folder, notebookUri });
+        }
+        return this.getOrCreate({ key: folder ? `folder:${folder.uri.toString()}` : `dir:${root}`, root, folder });
+    }
+
+    getForFolder(folder: vscode.WorkspaceFolder): DockerManager {
+        return this.getOrCreate({ key: `folder:${folder.uri.toString()}`, root: folder.uri.fsPath, folder });
+    }
+
+    // Runtime of the active notebook, falling back to the first workspace folder
+    getActive(): DockerManager | undefined {
+        const notebook = vscode.window.activeNotebookEditor?.notebook;
+        if (notebook?.notebookType === 'jupyter-notebook') {
+            return this.getForNotebook(notebook.uri);
+        }
+
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        return folder ? this.getForFolder(folder) : undefined;
+    }
+
+    // Runtime whose containers carry this key in their runtime label, if it was opened
+    findByKey(key: string): DockerManager | undefined {
+        return this.runtimes.get(key);
+    }
+
+    all(): DockerManager[] {
+        return Array.from(this.runtimes.values());
+    }
+
+    isIsolated(notebookUri: vscode.Uri): boolean {
+        return this.getIsolatedNotebooks().includes(notebookUri.toString());
+    }
+
+    async setIsolated(notebookUri: vscode.Uri, isolated: boolean): Promise<void> {
+        const uri = notebookUri.toString();
+        const notebooks = this.getIsolatedNotebooks().filter((entry) => entry !== uri);
+        if (isolated) {
+            notebooks.push(uri);
+        }
+        await this.context.workspaceState.update(ISOLATED_NOTEBOOKS_STATE_KEY, notebooks);
+    }
+
+    private getIsolatedNotebooks(): string[] {
+        return this.context.workspaceState.get<string[]>(ISOLATED_NOTEBOOKS_STATE_KEY, []);
+    }
+
+    private getOrCreate(scope: RuntimeScope): DockerManager {
+        let runtime = this.runtimes.get(scope.key);
+        if (!runtime) {
+            runtime = new DockerManager(this.context, scope);
+            this.runtimes.set(scope.key, runtime);
+        }
+        return runtime;
+    }
+
+    // Resolves once every runtime has applied its exit policy (see DockerManager.dispose)
+    async dispose(): Promise<void> {
+        if (this.changeTimer) {
+            clearTimeout(this.changeTimer);
+        }
+        this.configListener.dispose();
+        this.onDidChangeConfigurationEmitter.dispose();
+
+        const runtimes = Array.from(this.runtimes.values());
+        this.runtimes.clear();
+        await Promise.all(runtimes.map((runtime) => runtime.dispose().catch((error) => {
+            console.error('Failed to apply the lifecycle policy:', error);
+        })));
+    }
+}
@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import Docker, { ContainerInfo } from 'dockerode';
+import { CONTENT_HASH_LABEL, DockerManager, KernelSpecInfo, MANAGED_LABEL, SNAPSHOT_CREATED_LABEL, SNAPSHOT_LABEL, WORKSPACE_LABEL, formatBytes } from './dockerManager';
+import { ContainerRuntime, EngineEvent } from './containerRuntime';
+import { RuntimeRegistry } from './runtimeRegistry';
+import { DockerKernelProvider } from './kernelProvider';
+import { ForwardedPort } from './portForwarder';
+
+// Engine event actions that change what the view shows; exec events are left out
+// because every kernel start and package check produces them
+const REFRESH_ACTIONS = new Set([
+    'create', 'start', 'restart', 'stop', 'die', 'kill', 'destroy', 'pause', 'unpause', 'rename', 'oom',
+    'tag', 'untag', 'delete', 'pull', 'load', 'import'
+]);
+
+export type RuntimeNode =
+    | { kind: 'section'; section: 'containers' | 'images' | 'kernels' | 'ports' }
+    | { kind: 'container'; info: ContainerInfo }
+    | { kind: 'image'; info: Docker.ImageInfo }
+    | { kind: 'kernel'; spec: KernelSpecInfo }
+    | { kind: 'port'; runtime: DockerManager; port: ForwardedPort }
+    | { kind: 'message'; text: string };
+
+// Sidebar view of the managed containers and images on the active runtime's engine,
+// plus the kernelspecs and forwarded ports of the active runtime
+export class RuntimeTreeProvider implements vscode.TreeDataProvider<RuntimeNode>, vscode.Disposable {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+    private events: vscode.Disposable | undefined;
+    private eventsRuntime: ContainerRuntime | undefined;
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    constructor(
+        private runtimes: RuntimeRegistry,
+        private kernelProvider: DockerKernelProvider
+    ) {}
+
+    // Coalesces bursts of events, e.g. a rebuild that stops, removes and creates
+    refresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.onDidChangeTreeDataEmitter.fire();
+        }, 300);
+    }
+
+    getTreeItem(node: RuntimeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'section': {
+                const labels = { containers: 'Containers', images: 'Images', kernels: 'Kernels', ports: 'Forwarded Ports' };
+                return new vscode.TreeItem(labels[node.section], vscode.TreeItemCollapsibleState.Expanded);
+            }
+            case 'container': {
+                const info = node.info;
+                const running = info.State === 'running';
+                const item = new vscode.TreeItem(info.Names[0]?.replace(/^\//, '') || info.Id.slice(0, 12));
+                item.description = `${info.Status} · ${info.Image}`;
+                item.tooltip = [
+                    `State: ${info.State}`,
+                    `Image: ${info.Image}`,
+                    `Status: ${info.Status}`,
+                    info.Labels[WORKSPACE_LABEL] ? `Workspace: ${info.Labels[WORKSPACE_LABEL]}` : undefined
+                ].filter(Boolean).join('\n');
+                item.iconPath = new vscode.ThemeIcon(running ? 'vm-running' : 'vm-outline');
+                item.contextValue = running ? 'container-running' : 'container-stopped';
+                return item;
+            }
+            case 'image': {
+                const info = node.info;
+                const tag = info.RepoTags?.find((repoTag) => repoTag !== '<none>:<none>');
+                const item = new vscode.TreeItem(tag || info.Id.replace(/^sha256:/, '').slice(0, 12));
+                const built = new Date(info.Created * 1000).toLocaleString();
+                item.description = `${formatBytes(info.Size)} · built ${built}`;
+                const contentHash = info.Labels?.[CONTENT_HASH_LABEL];
+                // Snapshots carry their message, and when they were taken
+                const message = info.Labels?.[SNAPSHOT_LABEL];
+                const created = info.Labels?.[SNAPSHOT_CREATED_LABEL];
+                const snapshot = message !== undefined;
+                if (snapshot) {
+                    const taken = new Date(created || info.Created * 1000).toLocaleString();
+                    item.description = `${message || 'snapshot'} · ${formatBytes(info.Size)} · ${taken}`;
+                }
+                item.tooltip = [
+                    `Id: ${info.Id}`,
+                    `Size: ${formatBytes(info.Size)}`,
+                    `Built: ${built}`,
+                    contentHash ? `Content hash: ${contentHash.slice(0, 12)}` : undefined,
+                    snapshot ? `Snapshot: ${message || '(no message)'}` : undefined,
+                    created ? `Taken: ${new Date(created).toLocaleString()}` : undefined
+                ].filter(Boolean).join('\n');
+                item.iconPath = new vscode.ThemeIcon(snapshot ? 'history' : 'package');
+                item.contextValue = snapshot ? 'snapshot' : 'image';
+                return item;
+            }
+            case 'kernel': {
+                const item = new vscode.TreeItem(node.spec.displayName);
+                item.description = node.spec.name;
+                item.tooltip = `Kernelspec ${node.spec.name} (${node.spec.language})`;
+                item.iconPath = new vscode.ThemeIcon('server-process');
+                item.contextValue = 'kernel';
+                return item;
+            }
+            case 'port': {
+                const item = new vscode.TreeItem(`${node.port.containerPort}`);
+                item.description = node.port.url;
+                item.tooltip = `Container port ${node.port.containerPort} forwarded to ${node.port.url}`;
+                item.iconPath = new vscode.ThemeIcon('plug');
+                item.contextValue = 'port';
+                return item;
+            }
+            case 'message':
+                return new vscode.TreeItem(node.text);
+        }
+    }
+
+    async getChildren(node?: RuntimeNode): Promise<RuntimeNode[]> {
+        if (!node) {
+            return [
+                { kind: 'section', section: 'containers' },
+                { kind: 'section', section: 'images' },
+                { kind: 'section', section: 'kernels' },
+                { kind: 'section', section: 'ports' }
+            ];
+        }
+        if (node.kind !== 'section') {
+            return [];
+        }
+
+        const dockerManager = this.runtimes.getActive();
+        if (!dockerManager) {
+            return [{ kind: 'message', text: 'Open a notebook or a folder' }];
+        }
+
+        if (node.section === 'ports') {
+            const ports = this.kernelProvider.getForwardedPorts(dockerManager);
+            return ports.length > 0
+                ? ports.map(({ runtime, port }) => ({ kind: 'port' as const, runtime, port }))
+                : [{ kind: 'message', text: 'No servers started from notebooks' }];
+        }
+
+        try {
+            const runtime = await dockerManager.getRuntime();
+            await this.watch(runtime);
+
+            if (node.section === 'containers') {
+                const containers = await runtime.listContainers(`${MANAGED_LABEL}=true`);
+                return containers.length > 0
+                    ? containers.map((info) => ({ kind: 'container' as const, info }))
+                    : [{ kind: 'message', text: 'No containers yet' }];
+            }
+            if (node.section === 'images') {
+                const images = await runtime.listImages(`${MANAGED_LABEL}=true`);
+                return images.length > 0
+                    ? images.map((info) => ({ kind: 'image' as const, info }))
+                    : [{ kind: 'message', text: 'No images yet' }];
+            }
+
+            if (!(await dockerManager.isContainerRunning())) {
+                return [{ kind: 'message', text: 'Start the runtime to list its kernels' }];
+            }
+            const kernels = await dockerManager.listAvailableKernels();
+            return kernels.map((spec) => ({ kind: 'kernel' as const, spec }));
+        } catch (error) {
+            return [{ kind: 'message', text: `${dockerManager.getEngineDescription()} is unavailable: ${error}` }];
+        }
+    }
+
+    // Follows the events of the engine the view currently shows
+    private async watch(runtime: ContainerRuntime): Promise<void> {
+        if (this.eventsRuntime === runtime) {
+            return;
+        }
+        this.events?.dispose();
+        this.eventsRuntime = runtime;
+        this.events = await runtime.watchEvents((event: EngineEvent) => {
+            const managed = event.Type === 'image' || event.Actor?.Attributes?.[MANAGED_LABEL] === 'true';
+            if (managed && REFRESH_ACTIONS.has(event.Action)) {
+                this.refresh();
+            }
+        });
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.events?.dispose();
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+}
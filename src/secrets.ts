@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+
+// Names of this workspace's secrets; SecretStorage can't list its keys
+const SECRET_NAMES_STATE_KEY = 'jupyterDocker.secretNames';
+
+// SecretStorage is shared by all workspaces, so values are stored under an id
+// generated once per workspace
+const SECRET_SCOPE_STATE_KEY = 'jupyterDocker.secretScope';
+
+// Shorter values are too likely to occur in outputs by chance to be scrubbed
+const MIN_SCRUB_LENGTH = 4;
+
+const SCRUBBED = '********';
+
+// Environment variables for notebook kernels whose values live in the OS keychain
+// (VS Code SecretStorage), never in settings, the image or the container config
+export class SecretStore {
+    constructor(private context: vscode.ExtensionContext) {}
+
+    list(): string[] {
+        return this.context.workspaceState.get<string[]>(SECRET_NAMES_STATE_KEY, []);
+    }
+
+    async set(name: string, value: string): Promise<void> {
+        await this.context.secrets.store(await this.key(name), value);
+        if (!this.list().includes(name)) {
+            await this.context.workspaceState.update(SECRET_NAMES_STATE_KEY, [...this.list(), name].sort());
+        }
+    }
+
+    async delete(name: string): Promise<void> {
+        await this.context.secrets.delete(await this.key(name));
+        await this.context.workspaceState.update(SECRET_NAMES_STATE_KEY, this.list().filter((entry) => entry !== name));
+    }
+
+    async getAll(): Promise<{ [name: string]: string }> {
+        const values: { [name: string]: string } = {};
+        for (const name of this.list()) {
+            const value = await this.context.secrets.get(await this.key(name));
+            if (value !== undefined) {
+                values[name] = value;
+            }
+        }
+        return values;
+    }
+
+    // Replaces every secret value in a string, longest first so a secret that
+    // contains another is replaced whole
+    async getScrubber(): Promise<(text: string) => string> {
+        const values = Object.values(await this.getAll())
+            .filter((value) => value.length >= MIN_SCRUB_LENGTH)
+            .sort((a, b) => b.length - a.length);
+        return (text) => values.reduce((result, value) => result.split(value).join(SCRUBBED), text);
+    }
+
+    private async key(name: string): Promise<string> {
+        let scope = this.context.workspaceState.get<string>(SECRET_SCOPE_STATE_KEY);
+        if (!scope) {
+            scope = randomUUID();
+            await this.context.workspaceState.update(SECRET_SCOPE_STATE_KEY, scope);
+        }
+        return `jupyterDocker.secret.${scope}.${name}`;
+    }
+}
+
+export function isValidEnvName(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import Docker from 'dockerode';
+import { DockerRuntime, PodmanRuntime } from '../containerRuntime';
+import { DockerEngine } from '../dockerEngine';
+
+interface RecordedRequest {
+    method?: string;
+    url?: string;
+    body: string;
+}
+
+// An engine API on a local port that records the requests it gets
+async function startEngine(requests: RecordedRequest[]): Promise<http.Server> {
+    const server = http.createServer((request, response) => {
+        let body = '';
+        request.on('data', (chunk: Buffer) => {
+            body += chunk.toString();
+        });
+        request.on('end', () => {
+            requests.push({ method: request.method, url: request.url, body });
+            if (request.url?.startsWith('/commit') || request.url?.startsWith('/containers/create')) {
+                response.writeHead(201, { 'Content-Type': 'application/json' });
+                response.end(JSON.stringify({ Id: 'sha256:0123456789ab' }));
+            } else if (request.url?.startsWith('/info')) {
+                response.writeHead(200, { 'Content-Type': 'application/json' });
+                response.end(JSON.stringify({ SecurityOptions: [] }));
+            } else {
+                response.writeHead(204);
+                response.end();
+            }
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return server;
+}
+
+describe('DockerRuntime', () => {
+    let server: http.Server;
+    let docker: Docker;
+    let engine: DockerEngine;
+    let runtime: DockerRuntime;
+    const requests: RecordedRequest[] = [];
+
+    before(async () => {
+        server = await startEngine(requests);
+        const options = { protocol: 'http' as const, host: '127.0.0.1', port: (server.address() as AddressInfo).port };
+        engine = { options, source: 'setting', description: 'test engine', remote: false, cliEnv: {} };
+        docker = new Docker(options);
+        runtime = new DockerRuntime(docker, engine);
+    });
+
+    after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+    beforeEach(() => {
+        requests.length = 0;
+    });
+
+    describe('stopContainer', () => {
+        it('stops without waiting out the default grace period', async () => {
+            await runtime.stopContainer('runtime-1');
+
+            const url = new URL(requests[0].url || '', 'http://engine');
+            assert.strictEqual(url.pathname, '/containers/runtime-1/stop');
+            assert.strictEqual(url.searchParams.get('t'), '1');
+        });
+    });
+
+    describe('removeContainer', () => {
+        it('removes a running container in one call when forced', async () => {
+            await runtime.removeContainer('runtime-1', true);
+
+            const url = new URL(requests[0].url || '', 'http://engine');
+            assert.strictEqual(requests[0].method, 'DELETE');
+            assert.strictEqual(url.pathname, '/containers/runtime-1');
+            assert.strictEqual(url.searchParams.get('force'), 'true');
+        });
+    });
+
+    describe('commitContainer', () => {
+        it('commits the given container with its repository, tag, comment and labels', async () => {
+            await runtime.commitContainer('runtime-1', 'snapshots/notebook', 'v1', 'Before upgrade', { 'jupyter-docker.snapshot': 'true' });
+
+            assert.strictEqual(requests.length, 1);
+            const url = new URL(requests[0].url || '', 'http://engine');
+            assert.strictEqual(requests[0].method, 'POST');
+            assert.strictEqual(url.pathname, '/commit');
+            assert.strictEqual(url.searchParams.get('container'), 'runtime-1');
+            assert.strictEqual(url.searchParams.get('repo'), 'snapshots/notebook');
+            assert.strictEqual(url.searchParams.get('tag'), 'v1');
+            assert.strictEqual(url.searchParams.get('comment'), 'Before upgrade');
+            assert.deepStrictEqual(url.searchParams.getAll('changes'), ['LABEL "jupyter-docker.snapshot"="true"']);
+        });
+    });
+
+    describe('PodmanRuntime.createContainer', () => {
+        it('relabels the workspace bind but not configured bind mounts', async () => {
+            const podman = new PodmanRuntime(docker, engine);
+            await podman.createContainer({
+                name: 'runtime-1',
+                image: 'python:3.12',
+                labels: {},
+                env: [],
+                workingDir: '/workspace',
+                binds: [{ source: '/home/me/project', target: '/workspace' }],
+                mounts: [{ Type: 'bind', Source: '/data/shared', Target: '/data', ReadOnly: true }],
+                cmd: ['tail', '-f', '/dev/null']
+            });
+
+            const create = requests.find((request) => request.url?.startsWith('/containers/create'));
+            const hostConfig = JSON.parse(create?.body || '{}').HostConfig;
+            assert.deepStrictEqual(hostConfig.Binds, ['/home/me/project:/workspace:rw,Z']);
+            assert.deepStrictEqual(hostConfig.Mounts, [{ Type: 'bind', Source: '/data/shared', Target: '/data', ReadOnly: true }]);
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { PassThrough } from 'stream';
+import { DockerManager } from '../dockerManager';
+import { KernelSession } from '../kernelSession';
+
+interface BridgeRequest {
+    command: string;
+    msg_type?: string;
+    msg_id?: string;
+    env?: { [name: string]: string };
+    unset?: string[];
+}
+
+// Stands in for the bridge script: answers the start, restarts and kernel_info
+// requests, and records what the session sent it
+class FakeBridge {
+    readonly stdin = new PassThrough();
+    readonly stdout = new PassThrough();
+    readonly stderr = new PassThrough();
+    readonly requests: BridgeRequest[] = [];
+    private buffer = '';
+
+    constructor() {
+        this.stdin.on('data', (chunk: Buffer) => {
+            this.buffer += chunk.toString();
+            let newline = this.buffer.indexOf('\n');
+            while (newline !== -1) {
+                this.handle(JSON.parse(this.buffer.slice(0, newline)));
+                this.buffer = this.buffer.slice(newline + 1);
+                newline = this.buffer.indexOf('\n');
+            }
+        });
+        setImmediate(() => this.emit({ channel: 'bridge', event: 'ready', ports: [] }));
+    }
+
+    private handle(request: BridgeRequest): void {
+        this.requests.push(request);
+        if (request.command === 'restart') {
+            this.emit({ channel: 'bridge', event: 'restarted' });
+        } else if (request.msg_type === 'kernel_info_request') {
+            const parent = { msg_id: request.msg_id };
+            this.emit({ channel: 'shell', header: { msg_id: 'reply', msg_type: 'kernel_info_reply' }, parent_header: parent, metadata: {}, content: {} });
+            this.emit({ channel: 'iopub', header: { msg_id: 'idle', msg_type: 'status' }, parent_header: parent, metadata: {}, content: { execution_state: 'idle' } });
+        }
+    }
+
+    private emit(message: object): void {
+        this.stdout.write(JSON.stringify(message) + '\n');
+    }
+}
+
+describe('KernelSession', () => {
+    let secrets: { [name: string]: string };
+    let bridge: FakeBridge;
+    let startedWith: { [name: string]: string } | undefined;
+    let session: KernelSession;
+
+    beforeEach(async () => {
+        secrets = { API_KEY: 'first', OLD_TOKEN: 'gone soon' };
+        const dockerManager = {
+            getSecrets: async () => ({ ...secrets }),
+            startKernelBridge: async (_kernelName: string, env: { [name: string]: string }) => {
+                startedWith = env;
+                bridge = new FakeBridge();
+                return bridge;
+            }
+        } as unknown as DockerManager;
+        session = new KernelSession(dockerManager, 'python3');
+        await session.start();
+    });
+
+    afterEach(() => session.dispose());
+
+    describe('restart', () => {
+        it('starts the kernel with the secrets', () => {
+            assert.deepStrictEqual(startedWith, { API_KEY: 'first', OLD_TOKEN: 'gone soon' });
+        });
+
+        it('passes secrets changed since the start to the restarted kernel', async () => {
+            secrets = { API_KEY: 'second', NEW_TOKEN: 'added' };
+            await session.restart();
+
+            const restart = bridge.requests.find((request) => request.command === 'restart');
+            assert.deepStrictEqual(restart?.env, { API_KEY: 'second', NEW_TOKEN: 'added' });
+            assert.deepStrictEqual(restart?.unset, ['OLD_TOKEN']);
+        });
+
+        it('unsets a removed secret only on the restart after its removal', async () => {
+            delete secrets.OLD_TOKEN;
+            await session.restart();
+            await session.restart();
+
+            const restarts = bridge.requests.filter((request) => request.command === 'restart');
+            assert.deepStrictEqual(restarts.map((request) => request.unset), [['OLD_TOKEN'], []]);
+        });
+    });
+});
@@ -0,0 +1,216 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RAW_LANGUAGE, assignCellIds, parseNotebook, serializeNotebook } from '../nbformat';
+
+// Compiled to out/test at the repository root; the fixtures stay next to the sources
+const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+function readFixture(name: string): Uint8Array {
+    return fs.readFileSync(path.join(FIXTURES, name));
+}
+
+// The written file, as far as the tests look into it
+interface WrittenCell {
+    cell_type: string;
+    id?: string;
+    metadata: object;
+    source: string | string[];
+    outputs?: object[];
+    execution_count?: number | null;
+    attachments?: { [name: string]: object };
+}
+
+interface WrittenNotebook {
+    cells: WrittenCell[];
+    metadata: object;
+}
+
+function roundTrip(data: vscode.NotebookData): WrittenNotebook {
+    return JSON.parse(new TextDecoder().decode(serializeNotebook(data)));
+}
+
+function encode(notebook: object): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify(notebook));
+}
+
+describe('nbformat', () => {
+    describe('unchanged notebooks', () => {
+        it('writes a file saved by Jupyter back byte for byte', () => {
+            const content = readFixture('jupyter.ipynb');
+            assert.strictEqual(Buffer.from(serializeNotebook(parseNotebook(content))).toString(), Buffer.from(content).toString());
+        });
+
+        it('keeps the key order and string sources of a file written by another tool', () => {
+            const content = readFixture('unsorted.ipynb');
+            assert.strictEqual(Buffer.from(serializeNotebook(parseNotebook(content))).toString(), Buffer.from(content).toString());
+        });
+
+        it('keeps the key order within cell metadata when other parts change', () => {
+            const data = parseNotebook(readFixture('unsorted.ipynb'));
+            data.cells[1].value = "print('changed')";
+            data.metadata = { ...data.metadata, language_info: { name: 'python', version: '3.12.0' } };
+
+            const notebook = roundTrip(data);
+            assert.deepStrictEqual(Object.keys(notebook), ['nbformat', 'nbformat_minor', 'metadata', 'cells']);
+            assert.deepStrictEqual(Object.keys(notebook.cells[0].metadata), ['slideshow', 'editable']);
+            assert.deepStrictEqual(Object.keys(notebook.cells[1].metadata), ['tags', 'jupyter']);
+            assert.deepStrictEqual(Object.keys(notebook.metadata), ['language_info', 'kernelspec']);
+        });
+    });
+
+    describe('sources', () => {
+        it('writes an edited string source as a string', () => {
+            const data = parseNotebook(readFixture('unsorted.ipynb'));
+            data.cells[0].value = '# New title\nIntro';
+            assert.strictEqual(roundTrip(data).cells[0].source, '# New title\nIntro');
+        });
+
+        it('writes an edited list source as lines', () => {
+            const data = parseNotebook(readFixture('jupyter.ipynb'));
+            data.cells[2].value = '1 / 0\nprint()';
+            assert.deepStrictEqual(roundTrip(data).cells[2].source, ['1 / 0\n', 'print()']);
+        });
+    });
+
+    describe('raw cells', () => {
+        it('reads raw cells as code cells in the raw language', () => {
+            const cell = parseNotebook(readFixture('jupyter.ipynb')).cells[3];
+            assert.strictEqual(cell.kind, vscode.NotebookCellKind.Code);
+            assert.strictEqual(cell.languageId, RAW_LANGUAGE);
+            assert.strictEqual(cell.value, '.. note::\n   Verbatim — not run');
+        });
+
+        it('writes raw cells without outputs or execution count', () => {
+            const data = parseNotebook(readFixture('jupyter.ipynb'));
+            data.cells[3].value = 'changed';
+            const cell = roundTrip(data).cells[3];
+            assert.strictEqual(cell.cell_type, 'raw');
+            assert.deepStrictEqual(cell.metadata, { raw_mimetype: 'text/restructuredtext' });
+            assert.ok(!('outputs' in cell));
+            assert.ok(!('execution_count' in cell));
+        });
+    });
+
+    describe('outputs', () => {
+        it('reads the execution count of results and cells', () => {
+            const cell = parseNotebook(readFixture('jupyter.ipynb')).cells[1];
+            assert.strictEqual(cell.executionSummary?.executionOrder, 3);
+            assert.strictEqual(cell.outputs?.[3].metadata?.executionCount, 3);
+        });
+
+        it('writes new results and displays with their execution count', () => {
+            const data = parseNotebook(readFixture('jupyter.ipynb'));
+            const cell = data.cells[1];
+            cell.executionSummary = { executionOrder: 7 };
+            cell.outputs = [
+                new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.text('<i>x</i>', 'text/html')], {
+                    outputType: 'display_data',
+                    metadata: {}
+                }),
+                new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.text('7\n8')], {
+                    outputType: 'execute_result',
+                    executionCount: 7,
+                    metadata: {}
+                })
+            ];
+
+            const written = roundTrip(data).cells[1];
+            assert.strictEqual(written.execution_count, 7);
+            assert.deepStrictEqual(written.outputs, [
+                { data: { 'text/html': ['<i>x</i>'] }, metadata: {}, output_type: 'display_data' },
+                { data: { 'text/plain': ['7\n', '8'] }, execution_count: 7, metadata: {}, output_type: 'execute_result' }
+            ]);
+        });
+
+        it('writes stderr streams as stderr', () => {
+            const data = parseNotebook(readFixture('jupyter.ipynb'));
+            data.cells[1].outputs = [new vscode.NotebookCellOutput([vscode.NotebookCellOutputItem.stderr('warning\n')])];
+            assert.deepStrictEqual(roundTrip(data).cells[1].outputs, [{ name: 'stderr', output_type: 'stream', text: ['warning\n'] }]);
+        });
+
+        it('reads stderr streams as stderr', () => {
+            const output = parseNotebook(readFixture('jupyter.ipynb')).cells[1].outputs?.[1];
+            assert.strictEqual(output?.items[0].mime, 'application/vnd.code.notebook.stderr');
+        });
+    });
+
+    describe('attachments', () => {
+        it('keeps the attachments of markdown cells', () => {
+            const data = parseNotebook(readFixture('jupyter.ipynb'));
+            data.cells[0].value = '![plot](attachment:plot.png)';
+            assert.deepStrictEqual(Object.keys(roundTrip(data).cells[0].attachments || {}), ['plot.png']);
+        });
+
+        it('drops attachments when a markdown cell becomes a code cell', () => {
+            const data = parseNotebook(readFixture('jupyter.ipynb'));
+            const markdown = data.cells[0];
+            data.cells[0] = new vscode.NotebookCellData(vscode.NotebookCellKind.Code, markdown.value, 'python');
+            data.cells[0].metadata = markdown.metadata;
+            assert.ok(!('attachments' in roundTrip(data).cells[0]));
+        });
+    });
+
+    describe('cell ids', () => {
+        it('assigns missing ids once and keeps them from save to save', () => {
+            const content = encode({
+                cells: [{ cell_type: 'code', execution_count: null, metadata: {}, outputs: [], source: [] }],
+                metadata: {},
+                nbformat: 4,
+                nbformat_minor: 5
+            });
+            const data = parseNotebook(content);
+            const id = data.cells[0].metadata?.id;
+            assert.match(String(id), /^[0-9a-f]{8}$/);
+            assert.strictEqual(roundTrip(data).cells[0].id, id);
+            assert.strictEqual(roundTrip(data).cells[0].id, id);
+        });
+
+        it('makes repeated ids unique, keeping the first', () => {
+            const data = parseNotebook(readFixture('jupyter.ipynb'));
+            const pasted = new vscode.NotebookCellData(vscode.NotebookCellKind.Code, 'pasted', 'python');
+            pasted.metadata = { ...data.cells[1].metadata };
+            data.cells.push(pasted);
+
+            const ids = roundTrip(data).cells.map((cell) => cell.id);
+            assert.strictEqual(ids[1], 'e5f6a7b8');
+            assert.strictEqual(new Set(ids).size, ids.length);
+        });
+
+        it('gives added cells without an id or with a repeated one a new id', () => {
+            const data = parseNotebook(readFixture('jupyter.ipynb'));
+            const cells = data.cells.map((cell, index) => ({ index, metadata: cell.metadata || {} }));
+            const pasted = { index: cells.length, metadata: { ...cells[1].metadata } };
+            const created = { index: cells.length + 1, metadata: {} };
+            const all = [...cells, pasted, created];
+            const notebook = { metadata: data.metadata, getCells: () => all } as unknown as vscode.NotebookDocument;
+
+            const edits = assignCellIds(notebook, [pasted, created] as unknown as vscode.NotebookCell[]) as unknown as
+                { index: number; newCellMetadata: { id: string } }[];
+            assert.deepStrictEqual(edits.map((edit) => edit.index), [pasted.index, created.index]);
+            const ids = [...cells.map((cell) => cell.metadata.id), ...edits.map((edit) => edit.newCellMetadata.id)];
+            assert.strictEqual(new Set(ids).size, ids.length);
+        });
+
+        it('writes no ids before nbformat 4.5', () => {
+            const data = parseNotebook(readFixture('unsorted.ipynb'));
+            data.cells.push(new vscode.NotebookCellData(vscode.NotebookCellKind.Code, 'new', 'python'));
+            assert.ok(roundTrip(data).cells.every((cell) => !('id' in cell)));
+        });
+    });
+
+    describe('unsupported files', () => {
+        it('refuses invalid JSON', () => {
+            assert.throws(() => parseNotebook(new TextEncoder().encode('{"cells": [')), /Not a valid notebook/);
+        });
+
+        it('refuses files without cells', () => {
+            assert.throws(() => parseNotebook(encode({ nbformat: 4, nbformat_minor: 5 })), /no cells list/);
+        });
+
+        it('refuses notebooks other than nbformat 4', () => {
+            assert.throws(() => parseNotebook(encode({ cells: [], metadata: {}, nbformat: 3, nbformat_minor: 0 })), /only nbformat 4/);
+        });
+    });
+});
@@ -0,0 +1,99 @@
+import Module from 'module';
+
+// The parts of the vscode API that the modules under test use outside the editor.
+// Loaded with mocha's --require, before any test imports 'vscode'.
+
+enum NotebookCellKind {
+    Markup = 1,
+    Code = 2
+}
+
+class NotebookCellOutputItem {
+    static text(value: string, mime = 'text/plain'): NotebookCellOutputItem {
+        return new NotebookCellOutputItem(new TextEncoder().encode(value), mime);
+    }
+
+    static json(value: unknown, mime = 'text/x-json'): NotebookCellOutputItem {
+        return NotebookCellOutputItem.text(JSON.stringify(value, undefined, '\t'), mime);
+    }
+
+    static stdout(value: string): NotebookCellOutputItem {
+        return NotebookCellOutputItem.text(value, 'application/vnd.code.notebook.stdout');
+    }
+
+    static stderr(value: string): NotebookCellOutputItem {
+        return NotebookCellOutputItem.text(value, 'application/vnd.code.notebook.stderr');
+    }
+
+    static error(value: { name: string; message: string; stack?: string }): NotebookCellOutputItem {
+        return NotebookCellOutputItem.json(value, 'application/vnd.code.notebook.error');
+    }
+
+    constructor(public data: Uint8Array, public mime: string) {}
+}
+
+class NotebookCellOutput {
+    constructor(public items: NotebookCellOutputItem[], public metadata?: { [key: string]: unknown }) {}
+}
+
+class NotebookCellData {
+    outputs?: NotebookCellOutput[];
+    metadata?: { [key: string]: unknown };
+    executionSummary?: { executionOrder?: number };
+
+    constructor(public kind: NotebookCellKind, public value: string, public languageId: string) {}
+}
+
+class NotebookData {
+    metadata?: { [key: string]: unknown };
+
+    constructor(public cells: NotebookCellData[]) {}
+}
+
+class NotebookEdit {
+    static updateCellMetadata(index: number, newCellMetadata: { [key: string]: unknown }): NotebookEdit {
+        return Object.assign(new NotebookEdit(), { index, newCellMetadata });
+    }
+}
+
+class Disposable {
+    constructor(private callOnDispose: () => void) {}
+
+    dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+class EventEmitter<T> {
+    private listeners: ((event: T) => void)[] = [];
+
+    event = (listener: (event: T) => void): Disposable => {
+        this.listeners.push(listener);
+        return new Disposable(() => {
+            this.listeners = this.listeners.filter((entry) => entry !== listener);
+        });
+    };
+
+    fire(event: T): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+const vscode = {
+    NotebookCellKind,
+    NotebookCellOutputItem,
+    NotebookCellOutput,
+    NotebookCellData,
+    NotebookData,
+    NotebookEdit,
+    Disposable,
+    EventEmitter
+};
+
+const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = loader._load;
+loader._load = (request, ...rest) => (request === 'vscode' ? vscode : load(request, ...rest));